@@ -0,0 +1,55 @@
+import { createBrowserPool } from "./browserPool";
+
+function fakeBrowser() {
+  const listeners: Record<string, () => void> = {};
+  return {
+    newContext: jest.fn().mockResolvedValue({}),
+    close: jest.fn(),
+    on: jest.fn().mockImplementation((event: string, listener: () => void) => {
+      listeners[event] = listener;
+    }),
+    disconnect: () => listeners.disconnected?.(),
+  };
+}
+
+describe("createBrowserPool", () => {
+  test("launches one browser lazily and shares it", async () => {
+    const browser = fakeBrowser();
+    const launch = jest.fn().mockResolvedValue(browser);
+    const pool = createBrowserPool(launch);
+
+    expect(launch).not.toHaveBeenCalled();
+    await Promise.all([pool.newContext(), pool.newContext()]);
+
+    expect(launch).toHaveBeenCalledTimes(1);
+    expect(browser.newContext).toHaveBeenCalledTimes(2);
+
+    await pool.close();
+    expect(browser.close).toHaveBeenCalledTimes(1);
+  });
+
+  test("relaunches after the browser disconnects", async () => {
+    const first = fakeBrowser();
+    const second = fakeBrowser();
+    const launch = jest
+      .fn()
+      .mockResolvedValueOnce(first)
+      .mockResolvedValueOnce(second);
+    const pool = createBrowserPool(launch);
+
+    await pool.newContext();
+    first.disconnect();
+    await pool.newContext();
+
+    expect(launch).toHaveBeenCalledTimes(2);
+    expect(second.newContext).toHaveBeenCalledTimes(1);
+  });
+
+  test("closing without launching does nothing", async () => {
+    const launch = jest.fn();
+
+    await createBrowserPool(launch).close();
+
+    expect(launch).not.toHaveBeenCalled();
+  });
+});
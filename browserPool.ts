@@ -0,0 +1,44 @@
+import { Browser, BrowserContext, chromium } from "playwright";
+
+// One browser shared by every site, each site getting its own context so
+// cookies and storage don't leak between them
+export interface BrowserPool {
+  newContext(): Promise<BrowserContext>;
+  close(): Promise<void>;
+}
+
+export function createBrowserPool(
+  launch: () => Promise<Browser> = () => chromium.launch({ headless: true })
+): BrowserPool {
+  let browser: Promise<Browser> | undefined;
+
+  const getBrowser = () => {
+    if (!browser) {
+      const launching = launch();
+      browser = launching;
+      // Relaunch on next use if the browser crashes mid-run
+      launching
+        .then((instance) =>
+          instance.on("disconnected", () => {
+            if (browser === launching) browser = undefined;
+          })
+        )
+        .catch(() => {
+          if (browser === launching) browser = undefined;
+        });
+    }
+    return browser;
+  };
+
+  return {
+    async newContext() {
+      return (await getBrowser()).newContext();
+    },
+    async close() {
+      const current = browser;
+      browser = undefined;
+      const instance = await current?.catch(() => undefined);
+      await instance?.close();
+    },
+  };
+}
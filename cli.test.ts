@@ -0,0 +1,369 @@
+import fs from "fs";
+import http from "http";
+import type { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import { parseCliArgs, runCli } from "./cli";
+import * as mainModule from "./main";
+import { resolveOutputPath, selectWebsiteConfigs, WebsiteConfig } from "./main";
+
+jest.mock("ai", () => ({
+  generateObject: jest.fn().mockRejectedValue(new Error("offline")),
+}));
+
+jest.mock("./main", () => {
+  const originalModule = jest.requireActual("./main");
+  return {
+    ...originalModule,
+    main: jest.fn(),
+  };
+});
+
+const testConfig: WebsiteConfig = {
+  url: "https://test.com",
+  venue: "Test Venue",
+  eventListSelector: ".event-list",
+  eventSectionSelector: ".event-section",
+  defaultSelectors: {
+    venue: ".venue",
+    price: ".price",
+    event: ".event",
+    date: ".date",
+    ticketLink: ".ticket",
+  },
+};
+
+beforeAll(() => {
+  jest.spyOn(console, "log").mockImplementation(() => {});
+  jest.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+describe("parseCliArgs", () => {
+  test("defaults to scraping every site as JSON", () => {
+    expect(parseCliArgs([])).toEqual({
+      command: "scrape",
+      args: [],
+      sites: undefined,
+      out: undefined,
+      formats: ["json"],
+      dryRun: false,
+      configDir: undefined,
+      storeFile: undefined,
+      selectorCacheFile: undefined,
+      llmTags: false,
+      yes: false,
+    });
+  });
+
+  test("parses site filters, output and dry-run", () => {
+    const options = parseCliArgs([
+      "scrape",
+      "--site",
+      "stateroom,eccles",
+      "--site",
+      "snspresents",
+      "--out",
+      "out/",
+      "--dry-run",
+    ]);
+
+    expect(options.sites).toEqual(["stateroom", "eccles", "snspresents"]);
+    expect(options.out).toBe("out/");
+    expect(options.dryRun).toBe(true);
+  });
+
+  test("parses composable output formats", () => {
+    expect(
+      parseCliArgs(["--format", "json,ics", "--format", "csv"]).formats
+    ).toEqual(["json", "ics", "csv"]);
+  });
+
+  test("parses cache subcommands", () => {
+    expect(parseCliArgs(["cache", "clear", "--site", "eccles"])).toMatchObject({
+      command: "cache",
+      args: ["clear"],
+      sites: ["eccles"],
+    });
+  });
+
+  test("parses concurrency, timeout, retry and report options", () => {
+    expect(
+      parseCliArgs([
+        "--concurrency",
+        "4",
+        "--site-timeout",
+        "60000",
+        "--retries",
+        "0",
+        "--report",
+        "report.json",
+      ])
+    ).toMatchObject({
+      concurrency: 4,
+      siteTimeoutMs: 60000,
+      retries: 0,
+      reportFile: "report.json",
+    });
+  });
+
+  test("parses validation options", () => {
+    expect(
+      parseCliArgs([
+        "--max-rejection-rate",
+        "0.25",
+        "--quarantine",
+        "quarantine.json",
+      ])
+    ).toMatchObject({
+      maxRejectionRate: 0.25,
+      quarantineFile: "quarantine.json",
+    });
+  });
+
+  test("parses the venue registry file", () => {
+    expect(parseCliArgs(["--venues", "rooms.json"]).venuesFile).toBe(
+      "rooms.json"
+    );
+  });
+
+  test("parses tagging options", () => {
+    expect(
+      parseCliArgs(["--llm-tags", "--tag-overrides", "tags.json"])
+    ).toMatchObject({ llmTags: true, tagOverridesFile: "tags.json" });
+  });
+
+  test("parses fixture record and replay modes", () => {
+    expect(parseCliArgs(["--record-fixtures"]).fixtures).toEqual({
+      mode: "record",
+      dir: path.join(__dirname, "fixtures"),
+    });
+    expect(
+      parseCliArgs(["--replay-fixtures", "--fixtures-dir", "fx"]).fixtures
+    ).toEqual({ mode: "replay", dir: "fx" });
+    expect(parseCliArgs([]).fixtures).toBeUndefined();
+  });
+
+  test("parses the serve command", () => {
+    expect(
+      parseCliArgs(["serve", "--port", "3000", "--host", "0.0.0.0"])
+    ).toMatchObject({ command: "serve", port: 3000, host: "0.0.0.0" });
+  });
+
+  test("parses the daemon command", () => {
+    expect(parseCliArgs(["daemon", "--interval", "30m"])).toMatchObject({
+      command: "daemon",
+      intervalMs: 30 * 60 * 1000,
+    });
+  });
+
+  test("parses the new-site command", () => {
+    expect(
+      parseCliArgs([
+        "new-site",
+        "https://kilbycourt.com/events",
+        "--fetcher",
+        "http",
+        "--venue",
+        "Kilby Court",
+        "--yes",
+      ])
+    ).toMatchObject({
+      command: "new-site",
+      args: ["https://kilbycourt.com/events"],
+      fetcher: "http",
+      venue: "Kilby Court",
+      yes: true,
+    });
+  });
+
+  test("recognizes --list-sites", () => {
+    expect(parseCliArgs(["--list-sites"]).command).toBe("list-sites");
+  });
+
+  test.each([
+    [["--format", "xml"]],
+    [["--bogus"]],
+    [["deploy"]],
+    [["cache", "purge"]],
+    [["--concurrency", "0"]],
+    [["--site-timeout", "soon"]],
+    [["--retries", "-1"]],
+    [["--record-fixtures", "--replay-fixtures"]],
+    [["--max-rejection-rate", "1.5"]],
+    [["serve", "--port", "http"]],
+    [["daemon", "--interval", "often"]],
+    [["new-site"]],
+    [["new-site", "https://a.test", "--fetcher", "curl"]],
+  ])("rejects invalid arguments %j", (argv) => {
+    expect(() => parseCliArgs(argv)).toThrow();
+  });
+});
+
+describe("runCli", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test("exits 0 when every site succeeds", async () => {
+    (mainModule.main as jest.Mock).mockResolvedValue({
+      events: [],
+      failures: [],
+      configErrors: [],
+    });
+
+    await expect(runCli(["--site", "stateroom", "--dry-run"])).resolves.toBe(0);
+    expect(mainModule.main).toHaveBeenCalledWith(
+      expect.objectContaining({ sites: ["stateroom"], dryRun: true })
+    );
+  });
+
+  test("exits 1 when any site fails", async () => {
+    (mainModule.main as jest.Mock).mockResolvedValue({
+      events: [],
+      failures: [{ site: "stateroom", error: new Error("timeout") }],
+      configErrors: [],
+    });
+
+    await expect(runCli([])).resolves.toBe(1);
+  });
+
+  test("exits 2 on usage errors", async () => {
+    await expect(runCli(["--format", "xml"])).resolves.toBe(2);
+    expect(mainModule.main).not.toHaveBeenCalled();
+  });
+
+  test("serve exits 1 when the port is taken", async () => {
+    const taken = http.createServer();
+    await new Promise<void>((resolve) => taken.listen(0, "127.0.0.1", resolve));
+    const { port } = taken.address() as AddressInfo;
+    try {
+      await expect(
+        runCli(["serve", "--port", String(port), "--host", "127.0.0.1"])
+      ).resolves.toBe(1);
+      expect(console.error).toHaveBeenCalledWith(`Port ${port} already in use`);
+    } finally {
+      taken.close();
+    }
+  });
+
+  test("new-site exits 1 when the config can't be saved", async () => {
+    const rows = ["Band A", "Band B", "Band C"].map(
+      (band, i) => `<li class="show"><h2 class="title">${band}</h2>
+        <span class="date">Fri, Oct ${i + 3}, 2025</span>
+        <a class="buy" href="/tickets/${i}">Buy tickets</a></li>`
+    );
+    const site = http.createServer((_req, res) =>
+      res.end(`<ul class="shows">${rows.join("")}</ul>`)
+    );
+    await new Promise<void>((resolve) => site.listen(0, "127.0.0.1", resolve));
+    const { port } = site.address() as AddressInfo;
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "sites-"));
+    const notADir = path.join(dir, "file");
+    fs.writeFileSync(notADir, "");
+    try {
+      await expect(
+        runCli([
+          "new-site",
+          `http://127.0.0.1:${port}/`,
+          "--fetcher",
+          "http",
+          "--site",
+          "kilby",
+          "--yes",
+          "--config-dir",
+          path.join(notADir, "sites"),
+        ])
+      ).resolves.toBe(1);
+      expect(console.error).toHaveBeenCalledWith(
+        expect.stringMatching(/^Could not save kilby: .*ENOTDIR/)
+      );
+    } finally {
+      site.close();
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  describe("daemon", () => {
+    let configDir: string;
+
+    beforeEach(() => {
+      configDir = fs.mkdtempSync(path.join(os.tmpdir(), "sites-"));
+      mainModule.setWebsiteConfigs({});
+    });
+
+    afterEach(() => {
+      fs.rmSync(configDir, { recursive: true, force: true });
+    });
+
+    test("exits 1 for unknown sites", async () => {
+      await expect(
+        runCli(["daemon", "--config-dir", configDir, "--site", "nope"])
+      ).resolves.toBe(1);
+      expect(console.error).toHaveBeenCalledWith(
+        expect.stringContaining("Unknown site(s): nope")
+      );
+    });
+
+    test("exits 1 without any sites", async () => {
+      await expect(runCli(["daemon", "--config-dir", configDir])).resolves.toBe(
+        1
+      );
+      expect(mainModule.main).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe("resolveOutputPath", () => {
+  const now = new Date("2024-07-04T12:00:00Z");
+
+  test("defaults to a dated file next to the script", () => {
+    expect(resolveOutputPath(undefined, "json", now)).toBe(
+      path.join(__dirname, "event_data_2024-07-04.json")
+    );
+  });
+
+  test("treats paths with an extension as files", () => {
+    expect(resolveOutputPath("out/events.json", "json", now)).toBe(
+      "out/events.json"
+    );
+  });
+
+  test("gives files the sink's extension", () => {
+    expect(resolveOutputPath("out/events.json", "ics", now)).toBe(
+      path.join("out", "events.ics")
+    );
+  });
+
+  test("puts the dated file inside directories", () => {
+    expect(resolveOutputPath("out/", "json", now)).toBe(
+      path.join("out", "event_data_2024-07-04.json")
+    );
+    expect(resolveOutputPath(__dirname, "json", now)).toBe(
+      path.join(__dirname, "event_data_2024-07-04.json")
+    );
+  });
+});
+
+describe("selectWebsiteConfigs", () => {
+  const configs = { stateroom: testConfig, eccles: testConfig };
+
+  test("returns every site without a filter", () => {
+    expect(selectWebsiteConfigs(configs)).toBe(configs);
+  });
+
+  test("filters by site key", () => {
+    expect(Object.keys(selectWebsiteConfigs(configs, ["eccles"]))).toEqual([
+      "eccles",
+    ]);
+  });
+
+  test("rejects unknown site keys", () => {
+    expect(() => selectWebsiteConfigs(configs, ["nope"])).toThrow(
+      /Unknown site\(s\): nope/
+    );
+  });
+});
@@ -0,0 +1,517 @@
+import type http from "http";
+import type { AddressInfo } from "net";
+import path from "path";
+import readline from "readline/promises";
+import { parseArgs } from "util";
+import {
+  DEFAULT_SITES_DIR,
+  formatConfigError,
+  registerWebsiteConfigDir,
+  WebsiteConfig,
+} from "./config";
+import { DEFAULT_FIXTURES_DIR, FixtureOptions } from "./fixtures";
+import { main, selectWebsiteConfigs, websiteConfigs } from "./main";
+import {
+  clearSelectorCache,
+  formatSelectorCache,
+  loadSelectorCache,
+  saveSelectorCache,
+} from "./selectorCache";
+import { parseDuration, runDaemon } from "./scheduler";
+import { DEFAULT_PORT, startApiServer } from "./server";
+import {
+  formatProposal,
+  loadPageHtml,
+  proposeSiteConfig,
+  SiteProposal,
+  writeSiteConfig,
+} from "./siteAuthoring";
+import { sinkFormats } from "./sinks";
+
+export const USAGE = `Usage: cli.ts [command] [options]
+
+Commands:
+  scrape             Scrape the configured sites (default)
+  cache list         Show cached LLM selectors per site
+  cache clear        Clear cached LLM selectors (all, or --site)
+  serve              Serve the stored events over HTTP
+  daemon             Keep scraping on a schedule (see --interval)
+  new-site <url>     Propose a site config for a listing page, preview it and
+                     save it to the config directory once accepted
+
+Options:
+  --site <keys>      Comma-separated site keys to scrape (default: all)
+  --out <dir|file>   Output directory or file (default: ./event_data_<date>.json)
+  --format <formats> Comma-separated output formats: ${sinkFormats().join(
+    ", "
+  )} (default: json)
+  --config-dir <dir> Directory of site config files (default: ./sites)
+  --store <file>     Event store file (default: ./data/events.json)
+  --cache-file <file> Selector cache file (default: ./data/selector-cache.json)
+  --concurrency <n>  Sites scraped at once (default: 3)
+  --site-timeout <ms> Time allowed per site and attempt (default: 300000)
+  --retries <n>      Extra attempts for a failing site (default: 2)
+  --report <file>    Run report file (default: ./data/run-report.json)
+  --max-rejection-rate <0-1> Share of a site's events allowed to fail validation (default: 0.5)
+  --quarantine <file> Events that failed validation (default: ./data/quarantine.json)
+  --venues <file>    Venue registry (default: ./venues.json)
+  --tag-overrides <file> Tags set by hand per event ID (default: ./data/tag-overrides.json)
+  --llm-tags         Have the LLM tag events as well as the keyword rules
+  --record-fixtures  Save each scraped page's HTML under the fixtures directory
+  --replay-fixtures  Load pages from the fixtures directory instead of the network
+  --fixtures-dir <dir> Fixtures directory (default: ./fixtures)
+  --interval <time>  How often daemon scrapes each site, e.g. 30m or 6h (default: 6h)
+  --port <n>         Port for serve (default: 8080)
+  --host <host>      Address for serve to listen on (default: 127.0.0.1)
+  --venue <name>     Venue name for new-site (default: the page's site name)
+  --fetcher <type>   How new-site loads the page: browser or http (default: browser)
+  --yes              Save the new-site config without asking
+  --dry-run          Print events instead of writing them
+  --list-sites       List configured sites and exit
+  -h, --help         Show this help`;
+
+export type CliCommand =
+  | "scrape"
+  | "list-sites"
+  | "cache"
+  | "serve"
+  | "daemon"
+  | "new-site"
+  | "help";
+
+// Positional arguments each command accepts after its name; <placeholders>
+// take any value
+const COMMAND_ARGS: Record<string, string[][]> = {
+  scrape: [[]],
+  cache: [["list"], ["clear"]],
+  serve: [[]],
+  daemon: [[]],
+  "new-site": [["<url>"]],
+};
+
+function argsMatch(expected: string[], args: string[]): boolean {
+  return (
+    expected.length === args.length &&
+    expected.every((arg, i) => /^<.+>$/.test(arg) || arg === args[i])
+  );
+}
+
+export interface CliOptions {
+  command: CliCommand;
+  args: string[];
+  sites?: string[];
+  out?: string;
+  formats: string[];
+  dryRun: boolean;
+  configDir?: string;
+  storeFile?: string;
+  selectorCacheFile?: string;
+  concurrency?: number;
+  siteTimeoutMs?: number;
+  retries?: number;
+  reportFile?: string;
+  fixtures?: FixtureOptions;
+  maxRejectionRate?: number;
+  quarantineFile?: string;
+  venuesFile?: string;
+  tagOverridesFile?: string;
+  llmTags: boolean;
+  port?: number;
+  host?: string;
+  intervalMs?: number;
+  venue?: string;
+  fetcher?: "browser" | "http";
+  yes: boolean;
+}
+
+export class UsageError extends Error {}
+
+// Accepts both repeated flags and comma-separated values
+function splitList(values?: string[]): string[] | undefined {
+  return values
+    ?.flatMap((value) => value.split(","))
+    .map((value) => value.trim())
+    .filter(Boolean);
+}
+
+function integerOption(
+  name: string,
+  value: string | undefined,
+  min: number
+): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min) {
+    throw new UsageError(`--${name} must be an integer of at least ${min}`);
+  }
+  return parsed;
+}
+
+function fetcherOption(value?: string): CliOptions["fetcher"] {
+  if (value === undefined) return undefined;
+  if (value !== "browser" && value !== "http") {
+    throw new UsageError(`--fetcher must be browser or http, got ${value}`);
+  }
+  return value;
+}
+
+function durationOption(
+  name: string,
+  value: string | undefined
+): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = parseDuration(value);
+  if (parsed === undefined) {
+    throw new UsageError(`--${name} must be a duration like 90s, 30m or 6h`);
+  }
+  return parsed;
+}
+
+function rateOption(
+  name: string,
+  value: string | undefined
+): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (value.trim() === "" || !(parsed >= 0 && parsed <= 1)) {
+    throw new UsageError(`--${name} must be a number between 0 and 1`);
+  }
+  return parsed;
+}
+
+export function parseCliArgs(argv: string[]): CliOptions {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        site: { type: "string", multiple: true },
+        out: { type: "string" },
+        format: { type: "string", multiple: true },
+        "config-dir": { type: "string" },
+        store: { type: "string" },
+        "cache-file": { type: "string" },
+        concurrency: { type: "string" },
+        "site-timeout": { type: "string" },
+        retries: { type: "string" },
+        report: { type: "string" },
+        "max-rejection-rate": { type: "string" },
+        quarantine: { type: "string" },
+        venues: { type: "string" },
+        "tag-overrides": { type: "string" },
+        "llm-tags": { type: "boolean", default: false },
+        interval: { type: "string" },
+        port: { type: "string" },
+        host: { type: "string" },
+        venue: { type: "string" },
+        fetcher: { type: "string" },
+        yes: { type: "boolean", default: false },
+        "record-fixtures": { type: "boolean", default: false },
+        "replay-fixtures": { type: "boolean", default: false },
+        "fixtures-dir": { type: "string" },
+        "dry-run": { type: "boolean", default: false },
+        "list-sites": { type: "boolean", default: false },
+        help: { type: "boolean", short: "h", default: false },
+      },
+    });
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+
+  const { values, positionals } = parsed;
+  const [command = "scrape", ...args] = positionals;
+  const accepted = COMMAND_ARGS[command]?.some((expected) =>
+    argsMatch(expected, args)
+  );
+  if (!accepted) {
+    throw new UsageError(`Unknown command: ${positionals.join(" ")}`);
+  }
+
+  const formats = splitList(values.format) ?? ["json"];
+  const unknownFormats = formats.filter(
+    (format) => !sinkFormats().includes(format)
+  );
+  if (unknownFormats.length > 0) {
+    throw new UsageError(`Unknown format: ${unknownFormats.join(", ")}`);
+  }
+
+  const sites = splitList(values.site);
+
+  if (values["record-fixtures"] && values["replay-fixtures"]) {
+    throw new UsageError(
+      "--record-fixtures and --replay-fixtures can't be used together"
+    );
+  }
+  const fixtureMode = values["record-fixtures"]
+    ? "record"
+    : values["replay-fixtures"]
+    ? "replay"
+    : undefined;
+
+  return {
+    command: values.help
+      ? "help"
+      : values["list-sites"]
+      ? "list-sites"
+      : (command as CliCommand),
+    args,
+    sites,
+    out: values.out,
+    formats,
+    dryRun: values["dry-run"] ?? false,
+    configDir: values["config-dir"],
+    storeFile: values.store,
+    selectorCacheFile: values["cache-file"],
+    concurrency: integerOption("concurrency", values.concurrency, 1),
+    siteTimeoutMs: integerOption("site-timeout", values["site-timeout"], 1),
+    retries: integerOption("retries", values.retries, 0),
+    reportFile: values.report,
+    maxRejectionRate: rateOption(
+      "max-rejection-rate",
+      values["max-rejection-rate"]
+    ),
+    quarantineFile: values.quarantine,
+    venuesFile: values.venues,
+    tagOverridesFile: values["tag-overrides"],
+    llmTags: values["llm-tags"] ?? false,
+    intervalMs: durationOption("interval", values.interval),
+    port: integerOption("port", values.port, 0),
+    host: values.host,
+    venue: values.venue,
+    fetcher: fetcherOption(values.fetcher),
+    yes: values.yes ?? false,
+    fixtures: fixtureMode && {
+      mode: fixtureMode,
+      dir: values["fixtures-dir"] ?? DEFAULT_FIXTURES_DIR,
+    },
+  };
+}
+
+function listSites(configDir?: string): number {
+  const errors = registerWebsiteConfigDir(configDir);
+  for (const error of errors) {
+    console.error(`Invalid site config ${formatConfigError(error)}`);
+  }
+  for (const [key, config] of Object.entries(websiteConfigs)) {
+    console.log(`${key}\t${config.venue}\t${config.url}`);
+  }
+  return errors.length > 0 ? 1 : 0;
+}
+
+function runCacheCommand(options: CliOptions): number {
+  const cache = loadSelectorCache(options.selectorCacheFile);
+  const sites = options.sites ?? [];
+
+  if (options.args[0] === "clear") {
+    if (sites.length === 0) {
+      clearSelectorCache(cache);
+    }
+    for (const site of sites) {
+      clearSelectorCache(cache, site);
+    }
+    saveSelectorCache(cache, options.selectorCacheFile);
+    console.log(
+      `Cleared selector cache for ${
+        sites.length ? sites.join(", ") : "all sites"
+      }`
+    );
+    return 0;
+  }
+
+  const lines =
+    sites.length > 0
+      ? sites.flatMap((site) => formatSelectorCache(cache, site))
+      : formatSelectorCache(cache);
+  console.log(lines.length > 0 ? lines.join("\n") : "Selector cache is empty");
+  return 0;
+}
+
+// Runs until interrupted
+async function serve(options: CliOptions): Promise<number> {
+  const errors = registerWebsiteConfigDir(options.configDir);
+  for (const error of errors) {
+    console.error(`Invalid site config ${formatConfigError(error)}`);
+  }
+
+  let server: http.Server;
+  try {
+    server = await startApiServer(
+      { configs: websiteConfigs, storeFile: options.storeFile },
+      options.port,
+      options.host
+    );
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    console.error(
+      code === "EADDRINUSE"
+        ? `Port ${options.port ?? DEFAULT_PORT} already in use`
+        : error instanceof Error
+        ? error.message
+        : error
+    );
+    return 1;
+  }
+  const address = server.address() as AddressInfo;
+  console.log(`Serving events on http://${address.address}:${address.port}`);
+
+  await new Promise<void>((resolve) => {
+    const stop = () => server.close(() => resolve());
+    process.once("SIGINT", stop);
+    process.once("SIGTERM", stop);
+  });
+  return 0;
+}
+
+// Runs until interrupted, finishing the current scrape first
+async function daemon(options: CliOptions): Promise<number> {
+  const errors = registerWebsiteConfigDir(options.configDir);
+  for (const error of errors) {
+    console.error(`Invalid site config ${formatConfigError(error)}`);
+  }
+  let configs: Record<string, WebsiteConfig>;
+  try {
+    configs = selectWebsiteConfigs(websiteConfigs, options.sites);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    return 1;
+  }
+  if (Object.keys(configs).length === 0) {
+    console.error("No sites configured; nothing to schedule");
+    return 1;
+  }
+
+  const controller = new AbortController();
+  const stop = () => controller.abort();
+  process.once("SIGINT", stop);
+  process.once("SIGTERM", stop);
+
+  try {
+    await runDaemon({
+      configs,
+      intervalMs: options.intervalMs,
+      signal: controller.signal,
+      run: (sites) =>
+        main({ ...options, sites, outputSites: Object.keys(configs) }),
+    });
+  } finally {
+    process.off("SIGINT", stop);
+    process.off("SIGTERM", stop);
+  }
+  return 0;
+}
+
+async function confirm(question: string): Promise<boolean> {
+  if (!process.stdin.isTTY) return false;
+  const prompt = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  try {
+    return /^y(es)?$/i.test((await prompt.question(question)).trim());
+  } finally {
+    prompt.close();
+  }
+}
+
+async function newSite(options: CliOptions): Promise<number> {
+  const [url] = options.args;
+  let proposal: SiteProposal;
+  try {
+    proposal = await proposeSiteConfig(
+      await loadPageHtml(url, options.fetcher),
+      {
+        key: options.sites?.[0],
+        venue: options.venue,
+        fetcher: options.fetcher,
+      }
+    );
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    return 1;
+  }
+  console.log(formatProposal(proposal).join("\n"));
+
+  const dir = options.configDir ?? DEFAULT_SITES_DIR;
+  const accepted =
+    options.yes ||
+    (await confirm(
+      `\nSave to ${path.join(dir, `${proposal.key}.json`)}? [y/N] `
+    ));
+  if (!accepted) {
+    console.log("Not saved; rerun with --yes to save it");
+    return 0;
+  }
+
+  try {
+    const file = writeSiteConfig(proposal.key, proposal.config, dir);
+    console.log(`Saved ${file}`);
+    return 0;
+  } catch (error) {
+    console.error(
+      (error as NodeJS.ErrnoException).code === "EEXIST"
+        ? `${proposal.key} already has a config; choose another key with --site`
+        : `Could not save ${proposal.key}: ${
+            error instanceof Error ? error.message : error
+          }`
+    );
+    return 1;
+  }
+}
+
+// Exit codes: 0 success, 1 a site or config failed, 2 bad usage
+export async function runCli(argv: string[]): Promise<number> {
+  let options: CliOptions;
+  try {
+    options = parseCliArgs(argv);
+  } catch (error) {
+    if (!(error instanceof UsageError)) throw error;
+    console.error(`${error.message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  if (options.command === "help") {
+    console.log(USAGE);
+    return 0;
+  }
+
+  if (options.command === "list-sites") {
+    return listSites(options.configDir);
+  }
+
+  if (options.command === "cache") {
+    return runCacheCommand(options);
+  }
+
+  if (options.command === "serve") {
+    return serve(options);
+  }
+
+  if (options.command === "daemon") {
+    return daemon(options);
+  }
+
+  if (options.command === "new-site") {
+    return newSite(options);
+  }
+
+  try {
+    const result = await main(options);
+    return result.failures.length > 0 || result.configErrors.length > 0 ? 1 : 0;
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    return 1;
+  }
+}
+
+if (require.main === module) {
+  runCli(process.argv.slice(2)).then(
+    (code) => {
+      process.exitCode = code;
+    },
+    (error) => {
+      console.error(error);
+      process.exitCode = 1;
+    }
+  );
+}
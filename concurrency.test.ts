@@ -0,0 +1,95 @@
+import {
+  mapWithConcurrency,
+  retryWithBackoff,
+  TimeoutError,
+  withTimeout,
+} from "./concurrency";
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("mapWithConcurrency", () => {
+  test("limits calls in flight and keeps the order", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    const results = await mapWithConcurrency([30, 10, 20, 0], 2, async (ms) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await delay(ms);
+      inFlight--;
+      return ms * 2;
+    });
+
+    expect(results).toEqual([60, 20, 40, 0]);
+    expect(maxInFlight).toBe(2);
+  });
+
+  test("handles an empty list", async () => {
+    expect(await mapWithConcurrency([], 3, async () => 1)).toEqual([]);
+  });
+});
+
+describe("withTimeout", () => {
+  test("resolves with the result when it arrives in time", async () => {
+    expect(
+      await withTimeout(
+        delay(5).then(() => "done"),
+        100,
+        "slow"
+      )
+    ).toBe("done");
+  });
+
+  test("rejects with a TimeoutError when it doesn't", async () => {
+    const slow = delay(100).then(() => {
+      throw new Error("abandoned");
+    });
+
+    await expect(withTimeout(slow, 5, "too slow")).rejects.toThrow(
+      new TimeoutError("too slow")
+    );
+  });
+});
+
+describe("retryWithBackoff", () => {
+  test("retries with exponentially growing delays", async () => {
+    const sleep = jest.fn().mockResolvedValue(undefined);
+    const fn = jest
+      .fn()
+      .mockRejectedValueOnce(new Error("first"))
+      .mockRejectedValueOnce(new Error("second"))
+      .mockResolvedValue("done");
+
+    const result = await retryWithBackoff(fn, {
+      retries: 3,
+      baseDelayMs: 100,
+      sleep,
+    });
+
+    expect(result).toBe("done");
+    expect(fn.mock.calls).toEqual([[1], [2], [3]]);
+    expect(sleep.mock.calls).toEqual([[100], [200]]);
+  });
+
+  test("gives up once the retries run out", async () => {
+    const fn = jest.fn().mockRejectedValue(new Error("down"));
+
+    await expect(
+      retryWithBackoff(fn, { retries: 2, baseDelayMs: 0 })
+    ).rejects.toThrow("down");
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  test("stops early for errors that shouldn't be retried", async () => {
+    const fn = jest.fn().mockRejectedValue(new Error("permanent"));
+
+    await expect(
+      retryWithBackoff(fn, {
+        retries: 5,
+        baseDelayMs: 0,
+        shouldRetry: () => false,
+      })
+    ).rejects.toThrow("permanent");
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,77 @@
+// Runs `fn` over `items` with at most `limit` calls in flight, keeping order
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const workers = Array.from(
+    { length: Math.min(limit, items.length) },
+    async () => {
+      while (next < items.length) {
+        const index = next++;
+        results[index] = await fn(items[index], index);
+      }
+    }
+  );
+  await Promise.all(workers);
+  return results;
+}
+
+export class TimeoutError extends Error {}
+
+// Rejects with a TimeoutError after `ms`; the underlying work isn't
+// cancelled, so callers should tear down whatever it's using
+export async function withTimeout<T>(
+  promise: Promise<T>,
+  ms: number,
+  message: string
+): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new TimeoutError(message)), ms);
+  });
+
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+    // The abandoned work usually fails once its browser context is closed
+    promise.catch(() => {});
+  }
+}
+
+export interface RetryOptions {
+  retries: number;
+  // Delay before the first retry; doubles after each failure
+  baseDelayMs: number;
+  shouldRetry?: (error: unknown) => boolean;
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// Calls fn with the 1-based attempt number until it succeeds, it throws
+// something shouldRetry rejects, or the retries run out
+export async function retryWithBackoff<T>(
+  fn: (attempt: number) => Promise<T>,
+  options: RetryOptions
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      const canRetry =
+        attempt <= options.retries && (options.shouldRetry?.(error) ?? true);
+      if (!canRetry) throw error;
+
+      const delayMs = options.baseDelayMs * 2 ** (attempt - 1);
+      options.onRetry?.(error, attempt, delayMs);
+      await (options.sleep ?? sleep)(delayMs);
+    }
+  }
+}
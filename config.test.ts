@@ -0,0 +1,143 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  DEFAULT_SITES_DIR,
+  formatConfigError,
+  loadWebsiteConfigs,
+  registerWebsiteConfig,
+  setWebsiteConfigs,
+  WebsiteConfig,
+} from "./config";
+import * as configModule from "./config";
+
+const validConfig: WebsiteConfig = {
+  url: "https://test.com",
+  venue: "Test Venue",
+  eventListSelector: ".event-list",
+  eventSectionSelector: ".event-section",
+  defaultSelectors: {
+    venue: ".venue",
+    price: ".price",
+    event: ".event",
+    date: ".date",
+    ticketLink: ".ticket",
+  },
+};
+
+describe("loadWebsiteConfigs", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "sites-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("loads JSON and YAML files keyed by file name", () => {
+    fs.writeFileSync(
+      path.join(dir, "json-site.json"),
+      JSON.stringify(validConfig)
+    );
+    fs.writeFileSync(
+      path.join(dir, "yaml-site.yaml"),
+      [
+        "url: https://yaml.test",
+        "venue: YAML Venue",
+        "eventListSelector: .row",
+        "eventSectionSelector: .section",
+        "defaultSelectors:",
+        "  venue: .venue",
+        "  price: .price",
+        "  event: .event",
+        "  date: .date",
+        "  ticketLink: .ticket a",
+      ].join("\n")
+    );
+    fs.writeFileSync(path.join(dir, "README.md"), "ignored");
+
+    const { configs, errors } = loadWebsiteConfigs(dir);
+
+    expect(errors).toEqual([]);
+    expect(Object.keys(configs)).toEqual(["json-site", "yaml-site"]);
+    expect(configs["yaml-site"].venue).toBe("YAML Venue");
+  });
+
+  test("reports validation errors with the offending path", () => {
+    const { defaultSelectors, ...rest } = validConfig;
+    const { price, ...selectorsWithoutPrice } = defaultSelectors;
+    fs.writeFileSync(
+      path.join(dir, "broken.json"),
+      JSON.stringify({
+        ...rest,
+        url: "not a url",
+        defaultSelectors: selectorsWithoutPrice,
+      })
+    );
+    fs.writeFileSync(path.join(dir, "good.json"), JSON.stringify(validConfig));
+
+    const { configs, errors } = loadWebsiteConfigs(dir);
+
+    expect(Object.keys(configs)).toEqual(["good"]);
+    expect(errors.map((error) => error.path).sort()).toEqual([
+      "defaultSelectors.price",
+      "url",
+    ]);
+    expect(formatConfigError(errors[0])).toContain(
+      path.join(dir, "broken.json")
+    );
+  });
+
+  test("reports unparseable files and duplicate keys", () => {
+    fs.writeFileSync(path.join(dir, "bad.json"), "{ not json");
+    fs.writeFileSync(path.join(dir, "dup.json"), JSON.stringify(validConfig));
+    fs.writeFileSync(path.join(dir, "dup.yml"), JSON.stringify(validConfig));
+
+    const { configs, errors } = loadWebsiteConfigs(dir);
+
+    expect(Object.keys(configs)).toEqual(["dup"]);
+    expect(errors).toHaveLength(2);
+    expect(errors[0].message).toMatch(/Could not parse file/);
+    expect(errors[1].message).toMatch(/Duplicate site key "dup"/);
+  });
+
+  test("reports a missing directory instead of throwing", () => {
+    const { configs, errors } = loadWebsiteConfigs(path.join(dir, "missing"));
+
+    expect(configs).toEqual({});
+    expect(errors).toHaveLength(1);
+  });
+
+  test("bundled site configs are valid", () => {
+    const { configs, errors } = loadWebsiteConfigs(DEFAULT_SITES_DIR);
+
+    expect(errors).toEqual([]);
+    expect(Object.keys(configs)).toEqual(
+      expect.arrayContaining(["stateroom", "snspresents"])
+    );
+  });
+});
+
+describe("website config registry", () => {
+  afterEach(() => {
+    setWebsiteConfigs({});
+  });
+
+  test("registers valid configs", () => {
+    registerWebsiteConfig("test", validConfig);
+    registerWebsiteConfig("other", { ...validConfig, venue: "Other" });
+
+    expect(Object.keys(configModule.websiteConfigs)).toEqual(["test", "other"]);
+  });
+
+  test("rejects invalid configs without changing the registry", () => {
+    setWebsiteConfigs({ test: validConfig });
+
+    expect(() =>
+      registerWebsiteConfig("broken", { ...validConfig, url: "nope" })
+    ).toThrow(/broken: url/);
+    expect(Object.keys(configModule.websiteConfigs)).toEqual(["test"]);
+  });
+});
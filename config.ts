@@ -0,0 +1,231 @@
+import fs from "fs";
+import path from "path";
+import YAML from "yaml";
+import { z } from "zod";
+import { LlmConfigSchema } from "./llm";
+
+export const SelectorsSchema = z.object({
+  // Sites for a single room can leave this out to use the site's venue
+  venue: z.string().optional(),
+  price: z.string(),
+  event: z.string(),
+  date: z.string(),
+  ticketLink: z.string(),
+  subtitle: z.string().optional(),
+  pretitle: z.string().optional(),
+  time: z.string().optional(),
+});
+
+// Selectors for the event's own page (its ticketLink); all optional
+export const DetailSelectorsSchema = z.object({
+  doorsTime: z.string().optional(),
+  ageRestriction: z.string().optional(),
+  genre: z.string().optional(),
+  description: z.string().optional(),
+  // An <img> or a <meta property="og:image">
+  image: z.string().optional(),
+  // Every match is one act
+  lineup: z.string().optional(),
+});
+
+export type DetailSelectors = z.infer<typeof DetailSelectorsSchema>;
+
+export const PaginationSchema = z.object({
+  // Link or button that opens the next page of results
+  nextPageSelector: z.string().optional(),
+  // Button that appends more rows to the current page
+  loadMoreSelector: z.string().optional(),
+  // Keep scrolling to the bottom until no new rows appear
+  scroll: z.boolean().optional(),
+  // Pages loaded by any of the above, counting the first
+  maxPages: z.number().int().positive().optional(),
+  maxEvents: z.number().int().positive().optional(),
+  // How long to wait for new rows after each click or scroll
+  settleMs: z.number().int().nonnegative().optional(),
+});
+
+export type PaginationConfig = z.infer<typeof PaginationSchema>;
+
+export const WebsiteConfigSchema = z.object({
+  url: z.string().url(),
+  venue: z.string(),
+  // Aggregate pages re-list shows from other configured sites
+  aggregator: z.boolean().optional(),
+  upcomingEventsSelector: z.string().optional(),
+  eventListSelector: z.string(),
+  eventSectionSelector: z.string(),
+  // "browser" renders the page in Playwright; "http" downloads the HTML and
+  // parses it directly, which is faster and needs no browser but only sees
+  // what the server renders
+  fetcher: z.enum(["browser", "http"]).optional(),
+  // "selectors" scrapes rows with CSS selectors, "llm" has the model read the
+  // events straight from the HTML, and "hybrid" does the latter only when the
+  // selectors score below the threshold
+  strategy: z.enum(["selectors", "llm", "hybrid"]).optional(),
+  // Minimum fraction of complete rows before falling back to the LLM
+  selectorScoreThreshold: z.number().min(0).max(1).optional(),
+  // Set to false to ignore schema.org events (JSON-LD, microdata) on the
+  // page, which are otherwise read first with selectors filling the gaps
+  structuredData: z.boolean().optional(),
+  defaultSelectors: SelectorsSchema,
+  pagination: PaginationSchema.optional(),
+  detailSelectors: DetailSelectorsSchema.optional(),
+  // Detail pages fetched at once
+  detailConcurrency: z.number().int().positive().optional(),
+  // Time allowed for each attempt at the site, including pagination and
+  // detail pages
+  timeoutMs: z.number().int().positive().optional(),
+  // Extra attempts after a failure, with exponential backoff
+  retries: z.number().int().nonnegative().optional(),
+  // How often the daemon scrapes this site, instead of its --interval
+  intervalMs: z.number().int().positive().optional(),
+  // Fraction of events that may fail validation before the site fails
+  maxRejectionRate: z.number().min(0).max(1).optional(),
+  // Per-site overrides of the LLM provider, model and prompt
+  llm: LlmConfigSchema.partial().optional(),
+});
+
+export type WebsiteConfig = z.infer<typeof WebsiteConfigSchema>;
+
+// One file per site; the file name (without extension) is the site key
+export const DEFAULT_SITES_DIR = path.join(__dirname, "sites");
+
+export const CONFIG_EXTENSIONS = [".json", ".yaml", ".yml"];
+
+export interface ConfigError {
+  file: string;
+  path: string;
+  message: string;
+}
+
+export interface LoadedWebsiteConfigs {
+  configs: Record<string, WebsiteConfig>;
+  errors: ConfigError[];
+}
+
+export let websiteConfigs: Record<string, WebsiteConfig> = {};
+
+export function formatConfigError(error: ConfigError): string {
+  return error.path
+    ? `${error.file}: ${error.path}: ${error.message}`
+    : `${error.file}: ${error.message}`;
+}
+
+export function parseWebsiteConfig(
+  raw: unknown,
+  file: string
+): { config?: WebsiteConfig; errors: ConfigError[] } {
+  const result = WebsiteConfigSchema.safeParse(raw);
+  if (result.success) {
+    return { config: result.data, errors: [] };
+  }
+
+  return {
+    errors: result.error.issues.map((issue) => ({
+      file,
+      path: issue.path.join("."),
+      message: issue.message,
+    })),
+  };
+}
+
+function readConfigFile(file: string): unknown {
+  const contents = fs.readFileSync(file, "utf8");
+  return path.extname(file) === ".json"
+    ? JSON.parse(contents)
+    : YAML.parse(contents);
+}
+
+export function loadWebsiteConfigs(
+  dir: string = DEFAULT_SITES_DIR
+): LoadedWebsiteConfigs {
+  const configs: Record<string, WebsiteConfig> = {};
+  const errors: ConfigError[] = [];
+
+  let entries: string[];
+  try {
+    entries = fs.readdirSync(dir).sort();
+  } catch (error) {
+    return {
+      configs,
+      errors: [{ file: dir, path: "", message: (error as Error).message }],
+    };
+  }
+
+  for (const entry of entries) {
+    if (!CONFIG_EXTENSIONS.includes(path.extname(entry))) continue;
+
+    const file = path.join(dir, entry);
+    const key = path.basename(entry, path.extname(entry));
+
+    if (configs[key]) {
+      errors.push({
+        file,
+        path: "",
+        message: `Duplicate site key "${key}"`,
+      });
+      continue;
+    }
+
+    let raw: unknown;
+    try {
+      raw = readConfigFile(file);
+    } catch (error) {
+      errors.push({
+        file,
+        path: "",
+        message: `Could not parse file: ${(error as Error).message}`,
+      });
+      continue;
+    }
+
+    const parsed = parseWebsiteConfig(raw, file);
+    if (parsed.config) {
+      configs[key] = parsed.config;
+    }
+    errors.push(...parsed.errors);
+  }
+
+  return { configs, errors };
+}
+
+function validateWebsiteConfigs(
+  configs: Record<string, unknown>
+): Record<string, WebsiteConfig> {
+  const validated: Record<string, WebsiteConfig> = {};
+  const errors: ConfigError[] = [];
+
+  for (const [key, config] of Object.entries(configs)) {
+    const parsed = parseWebsiteConfig(config, key);
+    if (parsed.config) validated[key] = parsed.config;
+    errors.push(...parsed.errors);
+  }
+
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid website config:\n${errors.map(formatConfigError).join("\n")}`
+    );
+  }
+  return validated;
+}
+
+export function registerWebsiteConfig(key: string, config: unknown) {
+  registerWebsiteConfigs({ [key]: config });
+}
+
+export function registerWebsiteConfigs(configs: Record<string, unknown>) {
+  websiteConfigs = { ...websiteConfigs, ...validateWebsiteConfigs(configs) };
+}
+
+// Loads a sites directory into the registry, returning per-file errors
+export function registerWebsiteConfigDir(
+  dir: string = DEFAULT_SITES_DIR
+): ConfigError[] {
+  const { configs, errors } = loadWebsiteConfigs(dir);
+  registerWebsiteConfigs(configs);
+  return errors;
+}
+
+export function setWebsiteConfigs(configs: Record<string, unknown>) {
+  websiteConfigs = validateWebsiteConfigs(configs);
+}
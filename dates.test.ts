@@ -0,0 +1,149 @@
+import { parseEventDate, parseIsoEventDate } from "./dates";
+
+// 10am Denver time on Jul 1, 2024
+const summer = new Date("2024-07-01T16:00:00Z");
+// Scraping in December for shows early next year
+const december = new Date("2024-12-15T19:00:00Z");
+
+describe("parseEventDate", () => {
+  test.each([
+    ["Jul 4, 2024", "2024-07-04", "Thu, Jul 4, 2024"],
+    ["Thu, Jul 4, 2024", "2024-07-04", "Thu, Jul 4, 2024"],
+    ["Thursday, July 4, 2024", "2024-07-04", "Thu, Jul 4, 2024"],
+    ["Sept. 7th 2024", "2024-09-07", "Sat, Sep 7, 2024"],
+    ["4 July 2024", "2024-07-04", "Thu, Jul 4, 2024"],
+    ["7/4/24", "2024-07-04", "Thu, Jul 4, 2024"],
+    ["7/4/2024", "2024-07-04", "Thu, Jul 4, 2024"],
+    ["2024-07-04", "2024-07-04", "Thu, Jul 4, 2024"],
+    ["Jul 4", "2024-07-04", "Thu, Jul 4, 2024"],
+    ["Tonight", "2024-07-01", "Mon, Jul 1, 2024"],
+    ["Tomorrow", "2024-07-02", "Tue, Jul 2, 2024"],
+  ])("parses %p", (text, startDate, display) => {
+    expect(parseEventDate(text, { now: summer })).toEqual({
+      startDate,
+      endDate: undefined,
+      doorsTime: undefined,
+      display,
+    });
+  });
+
+  test.each([
+    ["Jul 4 - Jul 5, 2024", "2024-07-04", "2024-07-05"],
+    ["Jul 4–5, 2024", "2024-07-04", "2024-07-05"],
+    ["Dec 30 - Jan 2, 2025", "2024-12-30", "2025-01-02"],
+    ["7/4 to 7/6", "2024-07-04", "2024-07-06"],
+  ])("parses range %p", (text, startDate, endDate) => {
+    expect(parseEventDate(text, { now: summer })).toMatchObject({
+      startDate,
+      endDate,
+    });
+  });
+
+  test("formats ranges for display", () => {
+    expect(parseEventDate("Jul 4 - Jul 5, 2024")?.display).toBe(
+      "Thu, Jul 4, 2024 - Fri, Jul 5, 2024"
+    );
+  });
+
+  test("rolls yearless dates over to next year", () => {
+    expect(parseEventDate("Jan 10", { now: december })?.startDate).toBe(
+      "2025-01-10"
+    );
+    expect(parseEventDate("Dec 31", { now: december })?.startDate).toBe(
+      "2024-12-31"
+    );
+    // Recently started events keep the current year
+    expect(parseEventDate("Dec 1", { now: december })?.startDate).toBe(
+      "2024-12-01"
+    );
+    expect(parseEventDate("Dec 28 - Jan 3", { now: december })).toMatchObject({
+      startDate: "2024-12-28",
+      endDate: "2025-01-03",
+    });
+  });
+
+  test("attaches show and doors times in Denver time", () => {
+    expect(
+      parseEventDate("Fri, Jul 5 • Doors 6:00 PM / Show 7:00 PM", {
+        now: summer,
+      })
+    ).toEqual({
+      startDate: "2024-07-05T19:00:00-06:00",
+      endDate: undefined,
+      doorsTime: "2024-07-05T18:00:00-06:00",
+      display: "Fri, Jul 5, 2024, 7:00 PM",
+    });
+  });
+
+  test.each([
+    "Doors 6pm / Show 7pm Fri, Mar 7",
+    "Doors 6pm / Show 7pm / Fri, Mar 7",
+    "Fri, Mar 7 / Doors 6pm / Show 7pm / 2025",
+    "3/7/2025 @ Doors 6pm / Show 7pm",
+  ])("reads times around or between date parts in %p", (text) => {
+    expect(parseEventDate(text, { now: new Date("2025-01-15") })).toMatchObject(
+      {
+        startDate: "2025-03-07T19:00:00-07:00",
+        doorsTime: "2025-03-07T18:00:00-07:00",
+      }
+    );
+  });
+
+  test("uses standard time offsets in winter", () => {
+    expect(parseEventDate("Jan 10, 2025 at 8pm")?.startDate).toBe(
+      "2025-01-10T20:00:00-07:00"
+    );
+  });
+
+  test("reads times from separate time text", () => {
+    expect(
+      parseEventDate("Jul 4, 2024", { timeText: "Show: 8:30 pm" })?.startDate
+    ).toBe("2024-07-04T20:30:00-06:00");
+  });
+
+  test.each(["", "mockValue", "Invalid Date", "Feb 30, 2024", "TBA"])(
+    "rejects %p",
+    (text) => {
+      expect(parseEventDate(text, { now: summer })).toBeUndefined();
+    }
+  );
+});
+
+describe("parseIsoEventDate", () => {
+  test("converts instants to Denver time", () => {
+    expect(
+      parseIsoEventDate(
+        "2025-11-09T03:00:00Z",
+        "2025-11-09T06:00:00Z",
+        "2025-11-08T19:00:00-07:00"
+      )
+    ).toEqual({
+      startDate: "2025-11-08T20:00:00-07:00",
+      endDate: undefined,
+      doorsTime: "2025-11-08T19:00:00-07:00",
+      display: "Sat, Nov 8, 2025, 8:00 PM",
+    });
+  });
+
+  test("takes times without a zone as local", () => {
+    expect(parseIsoEventDate("2025-07-04T19:30")?.startDate).toBe(
+      "2025-07-04T19:30:00-06:00"
+    );
+  });
+
+  test("keeps multi-day ranges", () => {
+    expect(parseIsoEventDate("2025-12-31", "2026-01-02")).toEqual({
+      startDate: "2025-12-31",
+      endDate: "2026-01-02",
+      doorsTime: undefined,
+      display: "Wed, Dec 31, 2025 - Fri, Jan 2, 2026",
+    });
+  });
+
+  test.each(["Nov 8, 2025", "2025-02-30", "2025-11-08T25:00"])(
+    "rejects %p",
+    (text) => {
+      expect(parseIsoEventDate(text)).toBeUndefined();
+    }
+  );
+});
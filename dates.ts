@@ -0,0 +1,459 @@
+export const TIME_ZONE = "America/Denver";
+
+// Listings may still show events that started recently; anything older than
+// this without an explicit year is assumed to be next year's date
+const YEAR_ROLLOVER_GRACE_DAYS = 30;
+
+const MONTHS = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+const MONTH_NAMES = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+];
+const DAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const DAY_NAMES = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+const FILLER_WORDS = ["at", "on", "the", "of"];
+
+export interface ParsedEventDate {
+  // ISO 8601: `YYYY-MM-DD`, or with a time `YYYY-MM-DDTHH:mm:ss±HH:mm`
+  startDate: string;
+  endDate?: string;
+  doorsTime?: string;
+  display: string;
+}
+
+export interface DateParseOptions {
+  now?: Date;
+  // Separate time text, e.g. from a `time` selector
+  timeText?: string;
+}
+
+interface CalendarDate {
+  year: number;
+  month: number; // 0-based
+  day: number;
+}
+
+interface PartialDate {
+  year?: number;
+  month?: number;
+  day?: number;
+}
+
+interface ClockTime {
+  hour: number;
+  minute: number;
+}
+
+function pad(value: number): string {
+  return value.toString().padStart(2, "0");
+}
+
+function zonedParts(instant: Date, timeZone = TIME_ZONE) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(instant);
+  const get = (type: string) =>
+    parseInt(parts.find((part) => part.type === type)?.value ?? "0");
+
+  return {
+    year: get("year"),
+    month: get("month") - 1,
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  };
+}
+
+// Offset of the time zone from UTC in minutes at the given instant
+function offsetMinutesAt(instant: Date, timeZone = TIME_ZONE): number {
+  const parts = zonedParts(instant, timeZone);
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  return Math.round(
+    (asUtc - Math.floor(instant.getTime() / 1000) * 1000) / 60000
+  );
+}
+
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? "-" : "+";
+  const absolute = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(absolute / 60))}:${pad(absolute % 60)}`;
+}
+
+function toIsoDate(date: CalendarDate): string {
+  return `${date.year}-${pad(date.month + 1)}-${pad(date.day)}`;
+}
+
+function toIsoDateTime(date: CalendarDate, time: ClockTime): string {
+  const wallClock = Date.UTC(
+    date.year,
+    date.month,
+    date.day,
+    time.hour,
+    time.minute
+  );
+  // Resolve the offset at the wall-clock time, then re-check it at the
+  // resulting instant so DST transitions land on the right side
+  let offset = offsetMinutesAt(new Date(wallClock));
+  offset = offsetMinutesAt(new Date(wallClock - offset * 60000));
+
+  return `${toIsoDate(date)}T${pad(time.hour)}:${pad(
+    time.minute
+  )}:00${formatOffset(offset)}`;
+}
+
+function today(now: Date): CalendarDate {
+  const { year, month, day } = zonedParts(now);
+  return { year, month, day };
+}
+
+function addDays(date: CalendarDate, days: number): CalendarDate {
+  const shifted = new Date(Date.UTC(date.year, date.month, date.day + days));
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth(),
+    day: shifted.getUTCDate(),
+  };
+}
+
+function dayNumber(date: CalendarDate): number {
+  return Date.UTC(date.year, date.month, date.day) / 86400000;
+}
+
+function isValidDate({ year, month, day }: CalendarDate): boolean {
+  const date = new Date(Date.UTC(year, month, day));
+  return date.getUTCMonth() === month && date.getUTCDate() === day;
+}
+
+// Matches full names and abbreviations such as "Sept." or "Thurs"
+function nameIndex(names: string[], token: string): number {
+  const word = token.toLowerCase().replace(/\.$/, "");
+  if (word.length < 3) return -1;
+  return names.findIndex((name) => name.startsWith(word));
+}
+
+function expandYear(year: string): number {
+  const value = parseInt(year.replace(/\D/g, ""));
+  return year.replace(/\D/g, "").length <= 2 ? 2000 + value : value;
+}
+
+const TIME_PATTERN =
+  /\b(\d{1,2})(?::(\d{2}))?\s*(a\.?m\.?|p\.?m\.?)(?=\W|$)|\b(noon|midnight)\b/i;
+
+function parseClockTime(text: string): ClockTime | undefined {
+  const match = text.match(TIME_PATTERN);
+  if (!match) return undefined;
+
+  if (match[4]) {
+    return { hour: match[4].toLowerCase() === "noon" ? 12 : 0, minute: 0 };
+  }
+
+  let hour = parseInt(match[1]);
+  const minute = match[2] ? parseInt(match[2]) : 0;
+  const isPm = match[3].toLowerCase().startsWith("p");
+  if (hour < 1 || hour > 12 || minute > 59) return undefined;
+
+  if (isPm && hour !== 12) hour += 12;
+  if (!isPm && hour === 12) hour = 0;
+  return { hour, minute };
+}
+
+// Pulls "Doors 6pm / Show 7pm" style times out of the text, returning
+// whatever is left for date parsing
+function extractTimes(text: string): {
+  rest: string;
+  doors?: ClockTime;
+  show?: ClockTime;
+} {
+  const labelled =
+    /\b(doors?|show(?:time)?|starts?|event)\b\s*(?:open\s*)?(?:at|@|:)?\s*((?:\d{1,2}(?::\d{2})?\s*(?:a\.?m\.?|p\.?m\.?))|noon|midnight)/gi;
+  let doors: ClockTime | undefined;
+  let show: ClockTime | undefined;
+
+  let rest = text.replace(labelled, (_, label: string, time: string) => {
+    if (label.toLowerCase().startsWith("door")) {
+      doors = doors ?? parseClockTime(time);
+    } else {
+      show = show ?? parseClockTime(time);
+    }
+    return " ";
+  });
+
+  const unlabelled = new RegExp(TIME_PATTERN.source, "gi");
+  rest = rest.replace(unlabelled, (time) => {
+    show = show ?? parseClockTime(time);
+    return " ";
+  });
+
+  // Drop the separators the times leave behind, wherever they stood, but not
+  // the slashes of a numeric date like 7/5
+  rest = rest
+    .replace(/(^|\s)[@|•·/]+(?=\s|$)/g, " ")
+    .replace(/^[\s@|•·/]+|[\s@|•·/]+$/g, "");
+  return { rest, doors, show };
+}
+
+function parseDatePart(text: string, now: Date): PartialDate | undefined {
+  const part = text
+    .toLowerCase()
+    .replace(/[@|•·]/g, " ")
+    .trim();
+
+  if (/^(tonight|today)\b/.test(part)) return today(now);
+  if (/^tomorrow\b/.test(part)) return addDays(today(now), 1);
+
+  const iso = part.match(/\b(\d{4})-(\d{1,2})-(\d{1,2})\b/);
+  if (iso) {
+    return {
+      year: parseInt(iso[1]),
+      month: parseInt(iso[2]) - 1,
+      day: parseInt(iso[3]),
+    };
+  }
+
+  const numeric = part.match(/\b(\d{1,2})\/(\d{1,2})(?:\/(\d{2}|\d{4}))?\b/);
+  if (numeric) {
+    return {
+      month: parseInt(numeric[1]) - 1,
+      day: parseInt(numeric[2]),
+      year: numeric[3] ? expandYear(numeric[3]) : undefined,
+    };
+  }
+
+  const result: PartialDate = {};
+  for (const token of part.split(/[,\s]+/).filter(Boolean)) {
+    if (/^\d{4}$/.test(token) || /^'\d{2}$/.test(token)) {
+      result.year = expandYear(token);
+    } else if (/^\d{1,2}(st|nd|rd|th)?$/.test(token)) {
+      result.day = parseInt(token);
+    } else if (nameIndex(MONTH_NAMES, token) !== -1) {
+      result.month = nameIndex(MONTH_NAMES, token);
+    } else if (
+      nameIndex(DAY_NAMES, token) === -1 &&
+      !FILLER_WORDS.includes(token)
+    ) {
+      return undefined;
+    }
+  }
+
+  return result.month !== undefined || result.day !== undefined
+    ? result
+    : undefined;
+}
+
+// Picks the year that puts a yearless date closest after the scrape date
+function inferYear(month: number, day: number, now: Date): number {
+  const current = today(now);
+  const candidate = { year: current.year, month, day };
+  return dayNumber(candidate) < dayNumber(current) - YEAR_ROLLOVER_GRACE_DAYS
+    ? current.year + 1
+    : current.year;
+}
+
+function splitRange(text: string): string[] {
+  if (/\b\d{4}-\d{1,2}-\d{1,2}\b/.test(text)) {
+    return text.split(/\s+(?:-|to|through|thru)\s+/i);
+  }
+  return text.split(/\s*(?:-|\bto\b|\bthrough\b|\bthru\b)\s*/i);
+}
+
+function formatDisplayDate(date: CalendarDate): string {
+  const weekday =
+    DAYS[new Date(Date.UTC(date.year, date.month, date.day)).getUTCDay()];
+  return `${weekday}, ${MONTHS[date.month]} ${date.day}, ${date.year}`;
+}
+
+function formatDisplayTime({ hour, minute }: ClockTime): string {
+  const suffix = hour < 12 ? "AM" : "PM";
+  return `${hour % 12 || 12}:${pad(minute)} ${suffix}`;
+}
+
+export function parseEventDate(
+  text: string,
+  options: DateParseOptions = {}
+): ParsedEventDate | undefined {
+  const now = options.now ?? new Date();
+  const normalized = text.replace(/[–—]/g, "-").replace(/\s+/g, " ");
+
+  const { rest, doors, show } = extractTimes(
+    `${normalized} ${options.timeText ?? ""}`
+  );
+  if (!rest) return undefined;
+
+  const parts = splitRange(rest).filter(Boolean);
+  if (parts.length === 0 || parts.length > 2) return undefined;
+
+  const parsed = parts.map((part) => parseDatePart(part, now));
+  if (parsed.some((part) => !part)) return undefined;
+
+  const [startPart, endPart] = parsed as PartialDate[];
+
+  // "Jul 4-5" style ranges share the start's month
+  if (endPart && endPart.month === undefined) endPart.month = startPart.month;
+  if (startPart.month === undefined || startPart.day === undefined) {
+    return undefined;
+  }
+  if (endPart && (endPart.month === undefined || endPart.day === undefined)) {
+    return undefined;
+  }
+
+  let startYear = startPart.year;
+  if (startYear === undefined && endPart?.year !== undefined) {
+    // "Dec 30 - Jan 2, 2025" starts the year before it ends
+    startYear =
+      startPart.month > endPart.month! ? endPart.year - 1 : endPart.year;
+  }
+  startYear = startYear ?? inferYear(startPart.month, startPart.day, now);
+
+  const start: CalendarDate = {
+    year: startYear,
+    month: startPart.month,
+    day: startPart.day,
+  };
+  if (!isValidDate(start)) return undefined;
+
+  let end: CalendarDate | undefined;
+  if (endPart) {
+    end = {
+      year: endPart.year ?? startYear,
+      month: endPart.month!,
+      day: endPart.day!,
+    };
+    if (endPart.year === undefined && dayNumber(end) < dayNumber(start)) {
+      end.year += 1;
+    }
+    if (!isValidDate(end) || dayNumber(end) < dayNumber(start)) {
+      return undefined;
+    }
+  }
+
+  const startDisplay = show
+    ? `${formatDisplayDate(start)}, ${formatDisplayTime(show)}`
+    : formatDisplayDate(start);
+  const display = end
+    ? `${startDisplay} - ${formatDisplayDate(end)}`
+    : startDisplay;
+
+  return {
+    startDate: show ? toIsoDateTime(start, show) : toIsoDate(start),
+    endDate: end ? toIsoDate(end) : undefined,
+    doorsTime: doors ? toIsoDateTime(start, doors) : undefined,
+    display,
+  };
+}
+
+const ISO_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/i;
+
+// Instants with a zone are converted to local time; the rest are taken as
+// local already
+function parseIsoParts(
+  text: string
+): { date: CalendarDate; time?: ClockTime } | undefined {
+  const match = text.trim().match(ISO_PATTERN);
+  if (!match) return undefined;
+
+  const [, year, month, day, hour, minute, zone] = match;
+  let date: CalendarDate = {
+    year: parseInt(year),
+    month: parseInt(month) - 1,
+    day: parseInt(day),
+  };
+  if (!isValidDate(date)) return undefined;
+  if (hour === undefined) return { date };
+
+  let time: ClockTime = { hour: parseInt(hour), minute: parseInt(minute) };
+  if (time.hour > 23 || time.minute > 59) return undefined;
+
+  if (zone) {
+    const instant = new Date(
+      `${year}-${month}-${day}T${hour}:${minute}:00${
+        zone.toUpperCase() === "Z"
+          ? "Z"
+          : zone.replace(/^([+-]\d{2})(\d{2})$/, "$1:$2")
+      }`
+    );
+    if (isNaN(instant.getTime())) return undefined;
+    const local = zonedParts(instant);
+    date = { year: local.year, month: local.month, day: local.day };
+    time = { hour: local.hour, minute: local.minute };
+  }
+  return { date, time };
+}
+
+// For the ISO 8601 dates of structured data (schema.org startDate, endDate
+// and doorTime), producing the same shape as parseEventDate
+export function parseIsoEventDate(
+  startText: string,
+  endText?: string,
+  doorsText?: string
+): ParsedEventDate | undefined {
+  const start = parseIsoParts(startText);
+  if (!start) return undefined;
+
+  // Only a later day makes a range; an end time on the same day doesn't
+  const end = endText ? parseIsoParts(endText) : undefined;
+  const endDate =
+    end && dayNumber(end.date) > dayNumber(start.date) ? end.date : undefined;
+  const doors = doorsText ? parseIsoParts(doorsText) : undefined;
+
+  const startDisplay = start.time
+    ? `${formatDisplayDate(start.date)}, ${formatDisplayTime(start.time)}`
+    : formatDisplayDate(start.date);
+
+  return {
+    startDate: start.time
+      ? toIsoDateTime(start.date, start.time)
+      : toIsoDate(start.date),
+    endDate: endDate ? toIsoDate(endDate) : undefined,
+    doorsTime: doors?.time ? toIsoDateTime(doors.date, doors.time) : undefined,
+    display: endDate
+      ? `${startDisplay} - ${formatDisplayDate(endDate)}`
+      : startDisplay,
+  };
+}
@@ -0,0 +1,186 @@
+import { dedupeEvents, isSameEvent, titleSimilarity } from "./dedupe";
+import type { Event } from "./main";
+import { createStore, currentEvents, recordRun } from "./store";
+import { makeEvent } from "./testEvents";
+
+const options = {
+  aggregatorSites: ["stateroompresents"],
+  genericVenues: ["The State Room Presents"],
+};
+
+describe("titleSimilarity", () => {
+  test.each([
+    ["Band A", "BAND A!", 1],
+    ["THE STATE ROOM PRESENTS Band A", "Band A", 1],
+    ["Band A with Band B", "Band A w/ Band B", 1],
+    ["Band A", "Band C", 1 / 3],
+    ["Band A", "Other Act", 0],
+  ])("compares %p and %p", (a, b, expected) => {
+    expect(titleSimilarity(a, b)).toBe(expected);
+  });
+});
+
+describe("isSameEvent", () => {
+  const listed = (overrides: Partial<Event>) =>
+    makeEvent({ website: "stateroompresents", ...overrides });
+
+  test("requires the same date", () => {
+    expect(
+      isSameEvent(
+        makeEvent({}),
+        listed({ startDate: "2024-07-05T19:00:00-06:00" }),
+        options
+      )
+    ).toBe(false);
+  });
+
+  test("matches date-only and timed listings on the same day", () => {
+    expect(
+      isSameEvent(
+        makeEvent({}),
+        listed({ startDate: "2024-07-04T19:00:00-06:00" }),
+        options
+      )
+    ).toBe(true);
+  });
+
+  test("keeps early and late shows apart", () => {
+    expect(
+      isSameEvent(
+        makeEvent({ startDate: "2024-07-04T18:00:00-06:00" }),
+        listed({ startDate: "2024-07-04T21:30:00-06:00" }),
+        options
+      )
+    ).toBe(false);
+  });
+
+  test("does not merge different rooms", () => {
+    expect(
+      isSameEvent(makeEvent({}), listed({ venue: "Eccles Theater" }), options)
+    ).toBe(false);
+  });
+
+  test("never merges two listings from the same site", () => {
+    expect(
+      isSameEvent(
+        makeEvent({}),
+        makeEvent({ ticketLink: "https://tickets.test/band-a-2" }),
+        options
+      )
+    ).toBe(false);
+  });
+});
+
+describe("dedupeEvents", () => {
+  test("merges aggregate listings into the specific venue's event", () => {
+    const events = dedupeEvents(
+      [
+        makeEvent({
+          website: "stateroompresents",
+          venue: "The State Room Presents",
+          event: "THE STATE ROOM Band A",
+          ticketLink: "https://tickets.test/band-a-aggregate",
+          doorsTime: "2024-07-04T18:00:00-06:00",
+        }),
+        makeEvent({ website: "stateroom" }),
+        makeEvent({
+          website: "eccles",
+          venue: "Eccles Theater",
+          event: "Band B",
+        }),
+      ],
+      options
+    );
+
+    expect(events).toHaveLength(2);
+    expect(events[0]).toMatchObject({
+      website: "stateroom",
+      venue: "The State Room",
+      event: "Band A",
+      ticketLink: "https://tickets.test/band-a",
+      doorsTime: "2024-07-04T18:00:00-06:00",
+      sources: ["stateroom", "stateroompresents"],
+    });
+    expect(events[1].sources).toEqual(["eccles"]);
+  });
+
+  test("keeps a site's two shows apart when the aggregate matches both", () => {
+    const events = dedupeEvents(
+      [
+        makeEvent({ startDate: "2024-07-04T18:00:00-06:00" }),
+        makeEvent({ website: "stateroompresents" }),
+        makeEvent({
+          startDate: "2024-07-04T21:30:00-06:00",
+          ticketLink: "https://tickets.test/band-a-late",
+        }),
+      ],
+      options
+    );
+
+    expect(events.map((event) => event.sources)).toEqual([
+      ["stateroom", "stateroompresents"],
+      ["stateroom"],
+    ]);
+  });
+
+  test("prefers a specific venue name even from the aggregate page", () => {
+    const [event] = dedupeEvents(
+      [
+        makeEvent({
+          website: "deervalley",
+          venue: "Deer Valley Concert Series",
+          event: "Band A",
+        }),
+        makeEvent({
+          website: "stateroompresents",
+          venue: "Snow Park Amphitheater",
+          event: "Band A",
+        }),
+      ],
+      { ...options, genericVenues: ["Deer Valley Concert Series"] }
+    );
+
+    expect(event.website).toBe("deervalley");
+    expect(event.venue).toBe("Snow Park Amphitheater");
+  });
+});
+
+describe("deduping across runs", () => {
+  const venueListing = makeEvent({});
+  const aggregateListing = makeEvent({
+    website: "stateroompresents",
+    venue: "The State Room Presents",
+    event: "THE STATE ROOM Band A",
+    ticketLink: "https://tickets.test/band-a-aggregate",
+  });
+
+  test("merges the aggregate listing into the stored event while the venue's site is missing", () => {
+    const store = createStore();
+    recordRun(store, dedupeEvents([venueListing, aggregateListing], options), {
+      scrapedSites: ["stateroom", "stateroompresents"],
+    });
+
+    const scrapedSites = ["stateroompresents"];
+    const diff = recordRun(
+      store,
+      dedupeEvents(
+        [aggregateListing],
+        options,
+        currentEvents(store).filter(
+          (event) => !scrapedSites.includes(event.website)
+        )
+      ),
+      { scrapedSites }
+    );
+
+    expect(diff.added).toEqual([]);
+    expect(diff.removed).toEqual([]);
+    expect(currentEvents(store).map((event) => event.event)).toEqual([
+      "Band A",
+    ]);
+  });
+
+  test("leaves out stored events nothing in this run matched", () => {
+    expect(dedupeEvents([], options, [venueListing])).toEqual([]);
+  });
+});
@@ -0,0 +1,172 @@
+import type { Event } from "./main";
+import { eventId, normalizeTitle } from "./store";
+
+export interface DedupeOptions {
+  // Sites that re-list other sites' shows, e.g. "stateroompresents"
+  aggregatorSites?: string[];
+  // Presenter-level venue names that are less specific than a real room
+  genericVenues?: string[];
+  // Minimum token overlap for two titles to count as the same show
+  titleThreshold?: number;
+}
+
+const DEFAULT_TITLE_THRESHOLD = 0.6;
+
+const STOP_WORDS = new Set([
+  "an",
+  "and",
+  "the",
+  "with",
+  "w",
+  "featuring",
+  "feat",
+  "ft",
+  "presents",
+  "live",
+  "tour",
+  "evening",
+  "of",
+]);
+
+function titleTokens(title: string): Set<string> {
+  return new Set(
+    normalizeTitle(title)
+      .split(" ")
+      .filter((token) => token && !STOP_WORDS.has(token))
+  );
+}
+
+// Jaccard overlap, treating a multi-word title fully contained in another
+// (e.g. under a presenter prefix) as a match
+export function titleSimilarity(a: string, b: string): number {
+  const left = titleTokens(a);
+  const right = titleTokens(b);
+  if (left.size === 0 || right.size === 0) return 0;
+
+  const shared = [...left].filter((token) => right.has(token)).length;
+  const smaller = Math.min(left.size, right.size);
+  if (smaller >= 2 && shared === smaller) return 1;
+  return shared / (left.size + right.size - shared);
+}
+
+function dateKey(event: Event): string {
+  return event.startDate?.slice(0, 10) ?? event.date;
+}
+
+// Same day, and the same start time when both listings give one, so early
+// and late shows stay apart
+function datesMatch(a: Event, b: Event): boolean {
+  if (dateKey(a) !== dateKey(b)) return false;
+  if (!a.startDate?.includes("T") || !b.startDate?.includes("T")) return true;
+  return Date.parse(a.startDate) === Date.parse(b.startDate);
+}
+
+function isGenericVenue(venue: string, options: DedupeOptions): boolean {
+  const normalized = normalizeTitle(venue);
+  return (
+    !normalized ||
+    /\bpresents$/.test(normalized) ||
+    (options.genericVenues ?? []).some(
+      (generic) => normalizeTitle(generic) === normalized
+    )
+  );
+}
+
+function venuesMatch(a: string, b: string, options: DedupeOptions): boolean {
+  if (isGenericVenue(a, options) || isGenericVenue(b, options)) return true;
+
+  const left = normalizeTitle(a).replace(/^the /, "");
+  const right = normalizeTitle(b).replace(/^the /, "");
+  return left.includes(right) || right.includes(left);
+}
+
+export function isSameEvent(
+  a: Event,
+  b: Event,
+  options: DedupeOptions = {}
+): boolean {
+  // A site never lists the same show twice on one run
+  return (
+    a.website !== b.website &&
+    datesMatch(a, b) &&
+    venuesMatch(a.venue, b.venue, options) &&
+    titleSimilarity(a.event, b.event) >=
+      (options.titleThreshold ?? DEFAULT_TITLE_THRESHOLD)
+  );
+}
+
+function specificity(event: Event, options: DedupeOptions): number {
+  let score = 0;
+  if (!(options.aggregatorSites ?? []).includes(event.website)) score += 2;
+  if (!isGenericVenue(event.venue, options)) score += 1;
+  return score;
+}
+
+export function mergeEvents(
+  group: Event[],
+  options: DedupeOptions = {}
+): Event {
+  const [canonical, ...rest] = [...group].sort(
+    (a, b) => specificity(b, options) - specificity(a, options)
+  );
+
+  const merged: Event = { ...canonical };
+  for (const other of rest) {
+    for (const [key, value] of Object.entries(other)) {
+      const field = key as keyof Event;
+      if (merged[field] === undefined || merged[field] === "") {
+        (merged as Record<string, unknown>)[field] = value;
+      }
+    }
+  }
+
+  // Keep a real room name even if the canonical listing only had a presenter
+  const specificVenue = group.find(
+    (event) => !isGenericVenue(event.venue, options)
+  );
+  if (specificVenue && isGenericVenue(merged.venue, options)) {
+    merged.venue = specificVenue.venue;
+  }
+
+  merged.sources = [
+    ...new Set(group.flatMap((event) => event.sources ?? [event.website])),
+  ].sort();
+  if (group.length > 1) {
+    merged.listingIds = [
+      ...new Set(
+        group.flatMap(
+          (event) => event.listingIds ?? [event.id ?? eventId(event)]
+        )
+      ),
+    ].sort();
+  }
+  return merged;
+}
+
+// `stored` holds earlier runs' events from sites that weren't scraped this
+// time, so an aggregator's copy still merges into the venue's event when the
+// venue's own site failed or wasn't due. They only come back merged.
+export function dedupeEvents(
+  events: Event[],
+  options: DedupeOptions = {},
+  stored: Event[] = []
+): Event[] {
+  const groups: Event[][] = stored.map((event) => [event]);
+
+  for (const event of events) {
+    const group = groups.find(
+      (candidates) =>
+        candidates.every((candidate) => candidate.website !== event.website) &&
+        candidates.some((candidate) => isSameEvent(candidate, event, options))
+    );
+    if (group) {
+      group.push(event);
+    } else {
+      groups.push([event]);
+    }
+  }
+
+  return groups
+    .filter((group) => group.some((event) => !stored.includes(event)))
+    .map((group) => mergeEvents(group, options));
+}
@@ -0,0 +1,182 @@
+import type { WebsiteConfig } from "./config";
+import { dedupeEvents } from "./dedupe";
+import { enrichEvents, mergeEventDetails } from "./details";
+import type { Event } from "./event";
+import { createStore, recordRun } from "./store";
+
+const event: Event = {
+  website: "stateroom",
+  venue: "The State Room",
+  price: "$25",
+  event: "Band A",
+  date: "Thu, Jul 4, 2024, 8:00 PM",
+  startDate: "2024-07-04T20:00:00-06:00",
+  ticketLink: "https://tickets.test/band-a",
+};
+
+const config: WebsiteConfig = {
+  url: "https://test.com",
+  venue: "The State Room",
+  eventListSelector: ".row",
+  eventSectionSelector: ".section",
+  defaultSelectors: {
+    venue: ".venue",
+    price: ".price",
+    event: ".event",
+    date: ".date",
+    ticketLink: ".ticket",
+  },
+  detailSelectors: {
+    doorsTime: ".doors",
+    ageRestriction: ".age",
+    description: ".description",
+    image: "meta[property='og:image']",
+    lineup: ".lineup li",
+  },
+};
+
+const now = new Date("2024-07-01T12:00:00Z");
+
+function detailPage() {
+  const text: Record<string, string> = {
+    ".doors": "7:00 PM",
+    ".age": "21+",
+    ".description": "  An evening\n with Band A  ",
+    "meta[property='og:image']": "https://img.test/band-a.jpg",
+  };
+  return {
+    goto: jest.fn(),
+    $eval: jest.fn().mockImplementation(async (selector: string) => {
+      if (!(selector in text)) throw new Error("No element");
+      return text[selector];
+    }),
+    $$eval: jest.fn().mockResolvedValue(["Band A", " Band B "]),
+    close: jest.fn(),
+  } as any;
+}
+
+beforeAll(() => {
+  jest.spyOn(console, "log").mockImplementation(() => {});
+  jest.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+describe("mergeEventDetails", () => {
+  test("adds details without overwriting the listing", () => {
+    const merged = mergeEventDetails(
+      { ...event, ageRestriction: "All ages" },
+      { doorsTime: "Doors 7pm", ageRestriction: "21+", genre: "Folk" },
+      now
+    );
+
+    expect(merged).toMatchObject({
+      doorsTime: "2024-07-04T19:00:00-06:00",
+      ageRestriction: "All ages",
+      genre: "Folk",
+      enrichedAt: "2024-07-01T12:00:00.000Z",
+    });
+  });
+});
+
+describe("enrichEvents", () => {
+  test("visits each event page and merges the details", async () => {
+    const page = detailPage();
+
+    const [enriched] = await enrichEvents([event], config, "stateroom", {
+      newPage: async () => page,
+      now,
+    });
+
+    expect(page.goto).toHaveBeenCalledWith(event.ticketLink);
+    expect(page.close).toHaveBeenCalled();
+    expect(enriched).toMatchObject({
+      doorsTime: "2024-07-04T19:00:00-06:00",
+      ageRestriction: "21+",
+      description: "An evening with Band A",
+      image: "https://img.test/band-a.jpg",
+      lineup: ["Band A", "Band B"],
+      enrichedAt: now.toISOString(),
+    });
+    expect(enriched.genre).toBeUndefined();
+  });
+
+  test("reuses details from events enriched in an earlier run", async () => {
+    const store = createStore();
+    const [previous] = await enrichEvents([event], config, "stateroom", {
+      newPage: async () => detailPage(),
+      now,
+    });
+    recordRun(store, [previous], { scrapedSites: ["stateroom"] });
+    const newPage = jest.fn();
+
+    const [enriched] = await enrichEvents([event], config, "stateroom", {
+      newPage,
+      store,
+    });
+
+    expect(newPage).not.toHaveBeenCalled();
+    expect(enriched).toMatchObject({
+      ageRestriction: "21+",
+      lineup: ["Band A", "Band B"],
+      enrichedAt: now.toISOString(),
+    });
+  });
+
+  test("reuses details for an aggregator's copy of a deduped event", async () => {
+    const listed: Event = {
+      ...event,
+      website: "stateroompresents",
+      venue: "The State Room Presents",
+      event: "THE STATE ROOM Band A",
+      ticketLink: "https://tickets.test/band-a-aggregate",
+    };
+    const store = createStore();
+    const first = await enrichEvents([event, listed], config, "stateroom", {
+      newPage: async () => detailPage(),
+      now,
+    });
+    recordRun(
+      store,
+      dedupeEvents(first, {
+        aggregatorSites: ["stateroompresents"],
+        genericVenues: ["The State Room Presents"],
+      }),
+      { scrapedSites: ["stateroom", "stateroompresents"] }
+    );
+    const newPage = jest.fn();
+
+    const [enriched] = await enrichEvents(
+      [listed],
+      config,
+      "stateroompresents",
+      { newPage, store }
+    );
+
+    expect(newPage).not.toHaveBeenCalled();
+    expect(enriched).toMatchObject({ ageRestriction: "21+" });
+  });
+
+  test("keeps the listing when its page fails to load", async () => {
+    const page = detailPage();
+    page.goto.mockRejectedValue(new Error("Timeout"));
+
+    const [enriched] = await enrichEvents([event], config, "stateroom", {
+      newPage: async () => page,
+    });
+
+    expect(enriched).toEqual(event);
+    expect(page.close).toHaveBeenCalled();
+  });
+
+  test("does nothing for sites without detail selectors", async () => {
+    const newPage = jest.fn();
+
+    await enrichEvents(
+      [event],
+      { ...config, detailSelectors: undefined },
+      "stateroom",
+      { newPage }
+    );
+
+    expect(newPage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,170 @@
+import type { Page } from "playwright";
+import { mapWithConcurrency } from "./concurrency";
+import type { DetailSelectors, WebsiteConfig } from "./config";
+import { parseEventDate } from "./dates";
+import type { Event } from "./event";
+import {
+  extractEventDetails,
+  htmlSource,
+  pageSource,
+  ScrapedDetails,
+} from "./extraction";
+import { eventId, EventStore } from "./store";
+
+export const DEFAULT_DETAIL_CONCURRENCY = 3;
+
+const DETAIL_FIELDS = [
+  "doorsTime",
+  "ageRestriction",
+  "genre",
+  "description",
+  "image",
+  "lineup",
+  "enrichedAt",
+] as const;
+
+export type { ScrapedDetails } from "./extraction";
+
+export interface EnrichOptions {
+  // Event pages open in the browser, unless fetchHtml is given
+  newPage?: () => Promise<Page>;
+  // Downloads an event page for the HTTP fetcher
+  fetchHtml?: (url: string) => Promise<string>;
+  // Events enriched in an earlier run reuse the stored details
+  store?: EventStore;
+  now?: Date;
+  // Called once each event page has loaded, e.g. to record it as a fixture
+  onPageLoaded?: (page: Page) => Promise<unknown>;
+}
+
+// Reads the configured fields from an event page that's already loaded
+export function scrapeEventDetails(
+  page: Page,
+  selectors: DetailSelectors
+): Promise<ScrapedDetails> {
+  return extractEventDetails(pageSource(page), selectors);
+}
+
+async function loadEventDetails(
+  url: string,
+  selectors: DetailSelectors,
+  options: EnrichOptions
+): Promise<ScrapedDetails> {
+  if (options.fetchHtml) {
+    const html = await options.fetchHtml(url);
+    return extractEventDetails(htmlSource(html, url), selectors);
+  }
+  if (!options.newPage) {
+    throw new Error("enrichEvents needs either newPage or fetchHtml");
+  }
+
+  const page = await options.newPage();
+  try {
+    await page.goto(url);
+    await options.onPageLoaded?.(page);
+    return await scrapeEventDetails(page, selectors);
+  } finally {
+    await page.close();
+  }
+}
+
+// Fills in only what the listing didn't already have
+export function mergeEventDetails(
+  event: Event,
+  details: ScrapedDetails,
+  now: Date = new Date()
+): Event {
+  const merged: Event = { ...event, enrichedAt: now.toISOString() };
+
+  if (details.doorsTime && !event.doorsTime && event.startDate) {
+    const parsed = parseEventDate(event.startDate.slice(0, 10), {
+      timeText: /doors/i.test(details.doorsTime)
+        ? details.doorsTime
+        : `Doors ${details.doorsTime}`,
+    });
+    if (parsed?.doorsTime) merged.doorsTime = parsed.doorsTime;
+  }
+
+  for (const field of ["ageRestriction", "genre", "description"] as const) {
+    if (details[field] && !event[field]) merged[field] = details[field];
+  }
+  if (details.image && !event.image) merged.image = details.image;
+  if (details.lineup?.length && !event.lineup?.length) {
+    merged.lineup = details.lineup;
+  }
+
+  return merged;
+}
+
+// Stored events by their own ID and by the IDs of the listings merged into
+// them, so an aggregator's copy finds the event it was deduped into
+function storedEventsById(store: EventStore | undefined): Map<string, Event> {
+  const byId = new Map<string, Event>();
+  for (const stored of Object.values(store?.events ?? {})) {
+    byId.set(stored.id, stored.event);
+  }
+  for (const stored of Object.values(store?.events ?? {})) {
+    for (const id of stored.event.listingIds ?? []) {
+      if (!byId.has(id)) byId.set(id, stored.event);
+    }
+  }
+  return byId;
+}
+
+// Copies details from the stored copy of the event, if it was ever enriched
+function withStoredDetails(
+  event: Event,
+  storedById: Map<string, Event>
+): Event | undefined {
+  const stored = storedById.get(eventId(event));
+  if (!stored?.enrichedAt) return undefined;
+
+  const merged: Event = { ...event };
+  for (const field of DETAIL_FIELDS) {
+    if (merged[field] === undefined && stored[field] !== undefined) {
+      (merged as Record<string, unknown>)[field] = stored[field];
+    }
+  }
+  return merged;
+}
+
+export async function enrichEvents(
+  events: Event[],
+  config: WebsiteConfig,
+  websiteKey: string,
+  options: EnrichOptions
+): Promise<Event[]> {
+  const selectors = config.detailSelectors;
+  if (!selectors) return events;
+
+  const storedById = storedEventsById(options.store);
+  let fetched = 0;
+  const enriched = await mapWithConcurrency(
+    events,
+    config.detailConcurrency ?? DEFAULT_DETAIL_CONCURRENCY,
+    async (event) => {
+      const previous = withStoredDetails(event, storedById);
+      if (previous) return previous;
+      if (!event.ticketLink) return event;
+
+      try {
+        const details = await loadEventDetails(
+          event.ticketLink,
+          selectors,
+          options
+        );
+        fetched++;
+        return mergeEventDetails(event, details, options.now);
+      } catch (error) {
+        console.warn(
+          `Could not load details for ${websiteKey} event ${event.ticketLink}:`,
+          error
+        );
+        return event;
+      }
+    }
+  );
+
+  console.log(`${websiteKey}: fetched ${fetched} event detail page(s)`);
+  return enriched;
+}
@@ -0,0 +1,50 @@
+import { TimeoutError } from "./concurrency";
+import {
+  EmptyResultError,
+  NavigationError,
+  ScrapeError,
+  SiteTimeoutError,
+  toScrapeError,
+  ValidationError,
+} from "./errors";
+
+describe("ScrapeError", () => {
+  test("records its kind and name", () => {
+    const error = new NavigationError("Could not load https://test.com");
+
+    expect(error).toBeInstanceOf(ScrapeError);
+    expect(error.kind).toBe("navigation");
+    expect(error.name).toBe("NavigationError");
+    expect(error.retryable).toBe(true);
+  });
+
+  test("does not retry empty or invalid results", () => {
+    expect(new EmptyResultError("No events").retryable).toBe(false);
+    expect(new ValidationError("Too many rejected").retryable).toBe(false);
+  });
+});
+
+describe("toScrapeError", () => {
+  test("keeps scrape errors as they are", () => {
+    const error = new NavigationError("down");
+
+    expect(toScrapeError(error)).toBe(error);
+  });
+
+  test("turns timeouts into site timeouts", () => {
+    const error = toScrapeError(new TimeoutError("too slow"));
+
+    expect(error).toBeInstanceOf(SiteTimeoutError);
+    expect(error.message).toBe("too slow");
+  });
+
+  test("wraps anything else as unknown", () => {
+    const cause = new Error("boom");
+    const error = toScrapeError(cause);
+
+    expect(error.kind).toBe("unknown");
+    expect(error.message).toBe("boom");
+    expect(error.cause).toBe(cause);
+    expect(toScrapeError("oops").message).toBe("oops");
+  });
+});
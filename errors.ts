@@ -0,0 +1,82 @@
+import { TimeoutError } from "./concurrency";
+
+export type ScrapeErrorKind =
+  | "navigation"
+  | "selector_timeout"
+  | "empty_result"
+  | "llm"
+  | "timeout"
+  | "validation"
+  | "unknown";
+
+export class ScrapeError extends Error {
+  // Filled in by scrapeSite once it gives up on the site
+  attempts = 1;
+  // Screenshot and HTML captured from the failed page
+  artifacts: string[] = [];
+
+  constructor(
+    readonly kind: ScrapeErrorKind,
+    message: string,
+    readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+
+  // A page that loads fine but lists nothing (or nothing usable) won't
+  // change on a retry
+  get retryable(): boolean {
+    return this.kind !== "empty_result" && this.kind !== "validation";
+  }
+}
+
+export class NavigationError extends ScrapeError {
+  constructor(message: string, cause?: unknown) {
+    super("navigation", message, cause);
+  }
+}
+
+export class SelectorTimeoutError extends ScrapeError {
+  constructor(readonly selector: string, message: string, cause?: unknown) {
+    super("selector_timeout", message, cause);
+  }
+}
+
+export class EmptyResultError extends ScrapeError {
+  constructor(message: string) {
+    super("empty_result", message);
+  }
+}
+
+export class LlmError extends ScrapeError {
+  constructor(message: string, cause?: unknown) {
+    super("llm", message, cause);
+  }
+}
+
+export class SiteTimeoutError extends ScrapeError {
+  constructor(message: string, cause?: unknown) {
+    super("timeout", message, cause);
+  }
+}
+
+// Too many of the site's events failed validation, which usually means its
+// selectors match the wrong elements
+export class ValidationError extends ScrapeError {
+  constructor(message: string) {
+    super("validation", message);
+  }
+}
+
+export function toScrapeError(error: unknown): ScrapeError {
+  if (error instanceof ScrapeError) return error;
+  if (error instanceof TimeoutError) {
+    return new SiteTimeoutError(error.message, error);
+  }
+  return new ScrapeError(
+    "unknown",
+    error instanceof Error ? error.message : String(error),
+    error
+  );
+}
@@ -0,0 +1,59 @@
+import { buildEvent, removeSearchParams } from "./event";
+
+describe("buildEvent", () => {
+  test("normalizes the raw text of a listing", () => {
+    expect(
+      buildEvent(
+        {
+          venue: "",
+          price: "$25 adv / $30 dos",
+          pretitle: "KRCL presents",
+          event: "Band A",
+          subtitle: "with Band B",
+          date: "Thu, Jul 4, 2024",
+          time: "Show 8pm",
+          ticketLink: "https://tickets.test/band-a?utm_source=site",
+        },
+        "testSite",
+        "Test Venue"
+      )
+    ).toMatchObject({
+      website: "testSite",
+      venue: "Test Venue",
+      price: "$25–$30",
+      event: "KRCL PRESENTS Band A with Band B",
+      presenter: "KRCL",
+      headliner: "Band A",
+      supportingActs: ["Band B"],
+      date: "Thu, Jul 4, 2024, 8:00 PM",
+      startDate: "2024-07-04T20:00:00-06:00",
+      ticketLink: "https://tickets.test/band-a",
+    });
+  });
+
+  test("leaves out fields that were not looked for", () => {
+    expect(buildEvent({ event: "Band A" }, "testSite", "Test Venue")).toEqual({
+      website: "testSite",
+      event: "Band A",
+      headliner: "Band A",
+    });
+  });
+
+  test("keeps dates it cannot parse as they were", () => {
+    expect(
+      buildEvent({ event: "Band A", date: "Coming soon" }, "testSite", "").date
+    ).toBe("Coming soon");
+  });
+});
+
+describe("removeSearchParams", () => {
+  test("strips the query string", () => {
+    expect(removeSearchParams("https://test.com/a?b=1")).toBe(
+      "https://test.com/a"
+    );
+  });
+
+  test("returns invalid URLs unchanged", () => {
+    expect(removeSearchParams("not a url")).toBe("not a url");
+  });
+});
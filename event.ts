@@ -0,0 +1,124 @@
+import { z } from "zod";
+import { parseEventDate } from "./dates";
+import { formatPrice, parsePrice, PriceSchema } from "./price";
+import { TagSchema } from "./tags";
+import { combineEventTitle, parseEventTitle } from "./titles";
+
+export const EventSchema = z.object({
+  website: z.string(),
+  // The registry's name once resolved, otherwise as scraped
+  venue: z.string(),
+  // Set when the venue matched the venue registry
+  venueId: z.string().optional(),
+  address: z.string().optional(),
+  geo: z.object({ latitude: z.number(), longitude: z.number() }).optional(),
+  // Short display label derived from priceDetails
+  price: z.string(),
+  priceDetails: PriceSchema.optional(),
+  // Display title derived from the pretitle, title and subtitle as listed
+  event: z.string(),
+  // Parsed from the same text, e.g. "KRCL presents Band A with Band B, Band C"
+  presenter: z.string().optional(),
+  headliner: z.string().optional(),
+  supportingActs: z.array(z.string()).optional(),
+  tourName: z.string().optional(),
+  // Human-readable display string derived from startDate/endDate
+  date: z.string(),
+  // ISO 8601 in America/Denver; date-only unless a show time was found
+  startDate: z.string().optional(),
+  endDate: z.string().optional(),
+  doorsTime: z.string().optional(),
+  ticketLink: z.string(),
+  // Stable ID assigned by the event store
+  id: z.string().optional(),
+  // Every site that listed this event, after cross-site de-duplication
+  sources: z.array(z.string()).optional(),
+  // IDs of the listings merged into this event, so a later run's copy from
+  // any of those sites still finds it in the store
+  listingIds: z.array(z.string()).optional(),
+  // From the event's own page, for sites with detailSelectors
+  ageRestriction: z.string().optional(),
+  genre: z.string().optional(),
+  description: z.string().optional(),
+  image: z.string().optional(),
+  lineup: z.array(z.string()).optional(),
+  // When the event's page was last scraped
+  enrichedAt: z.string().optional(),
+  // Categories for filtering, e.g. "comedy" or "21+", most confident first
+  tags: z.array(TagSchema).optional(),
+  // Model and prompt version the LLM tagged with; set even when it gave no
+  // tags, so the event isn't sent again
+  taggedBy: z.string().optional(),
+});
+
+export type Event = z.infer<typeof EventSchema>;
+
+// Text of a single listing as found on the page, before normalization.
+// Fields left undefined were not looked for; empty strings were not found.
+export interface RawEventFields {
+  venue?: string;
+  price?: string;
+  event?: string;
+  date?: string;
+  time?: string;
+  ticketLink?: string;
+  pretitle?: string;
+  subtitle?: string;
+}
+
+export function removeSearchParams(url: string): string {
+  try {
+    const urlObject = new URL(url);
+    urlObject.search = "";
+    return urlObject.toString();
+  } catch {
+    return url;
+  }
+}
+
+// Normalizes a raw listing into an Event, whichever strategy extracted it
+export function buildEvent(
+  raw: RawEventFields,
+  websiteKey: string,
+  venue: string
+): Event {
+  const eventData: Partial<Event> = { website: websiteKey };
+
+  if (raw.venue !== undefined) eventData.venue = raw.venue || venue;
+
+  if (raw.price !== undefined) {
+    const priceDetails = parsePrice(raw.price);
+    eventData.priceDetails = priceDetails;
+    eventData.price = formatPrice(priceDetails);
+  }
+
+  const titleParts = {
+    pretitle: raw.pretitle,
+    title: raw.event,
+    subtitle: raw.subtitle,
+  };
+  eventData.event = combineEventTitle(titleParts);
+  const title = parseEventTitle(titleParts);
+  if (title.presenter) eventData.presenter = title.presenter;
+  if (title.headliner) eventData.headliner = title.headliner;
+  if (title.supportingActs.length > 0) {
+    eventData.supportingActs = title.supportingActs;
+  }
+  if (title.tourName) eventData.tourName = title.tourName;
+
+  if (raw.date !== undefined) {
+    const parsedDate = parseEventDate(raw.date, { timeText: raw.time });
+    eventData.date = parsedDate?.display ?? raw.date;
+    if (parsedDate) {
+      eventData.startDate = parsedDate.startDate;
+      eventData.endDate = parsedDate.endDate;
+      eventData.doorsTime = parsedDate.doorsTime;
+    }
+  }
+
+  if (raw.ticketLink !== undefined) {
+    eventData.ticketLink = removeSearchParams(raw.ticketLink);
+  }
+
+  return eventData as Event;
+}
@@ -0,0 +1,140 @@
+import {
+  extractEventDetails,
+  extractListingEvents,
+  findMissingSelectors,
+  htmlSource,
+} from "./extraction";
+
+const listing = `
+  <ul class="events">
+    <li class="event">
+      <h3 class="title"><a href="/shows/band-a">Band A with Band B</a></h3>
+      <span class="date">Sat, Nov 8, 2025</span>
+      <a class="tickets" href="/tickets/1001">$25</a>
+    </li>
+    <li class="event">
+      <h3 class="title">The Trio</h3>
+      <span class="date">Fri, Nov 14, 2025</span>
+    </li>
+  </ul>
+`;
+
+const selectors = {
+  venue: ".venue",
+  event: ".title",
+  date: ".date",
+  price: ".tickets",
+  ticketLink: ".tickets",
+};
+
+describe("htmlSource", () => {
+  const source = htmlSource(listing, "https://venue.test/calendar/");
+
+  test("reads the first match, or undefined without one", async () => {
+    expect(await source.text(".date")).toBe("Sat, Nov 8, 2025");
+    expect(await source.text(".missing")).toBeUndefined();
+    expect(await source.textContent(".missing")).toBe("");
+  });
+
+  test("resolves links against the page URL", async () => {
+    expect(await source.href(".title a")).toBe(
+      "https://venue.test/shows/band-a"
+    );
+    expect(await source.links("a")).toEqual([
+      "https://venue.test/shows/band-a",
+      "https://venue.test/tickets/1001",
+    ]);
+  });
+
+  test("scopes rows to their element", async () => {
+    const rows = await source.rows(".event");
+
+    expect(rows).toHaveLength(2);
+    expect(await rows[1].text(".title")).toBe("The Trio");
+    expect(await rows[1].href(".tickets")).toBeUndefined();
+  });
+
+  test("understands Playwright text selectors", async () => {
+    const page = htmlSource(
+      "<section><h2>Upcoming   Events</h2><p>Soon</p></section>",
+      "https://venue.test/"
+    );
+
+    expect(await page.count("text=upcoming events")).toBe(1);
+    expect(await page.text('text="upcoming events"')).toBe("Upcoming   Events");
+    expect(await page.count("text=past events")).toBe(0);
+  });
+
+  test("fails like the browser when innerHTML matches nothing", async () => {
+    await expect(source.innerHTML(".missing")).rejects.toThrow(
+      ".missing matches nothing"
+    );
+  });
+});
+
+describe("extractListingEvents", () => {
+  test("builds an event from each row", async () => {
+    const events = await extractListingEvents(
+      htmlSource(listing, "https://venue.test/calendar/"),
+      selectors,
+      ".event",
+      "venue",
+      "The Venue"
+    );
+
+    expect(events).toHaveLength(2);
+    expect(events[0]).toMatchObject({
+      website: "venue",
+      venue: "The Venue",
+      event: "Band A with Band B",
+      headliner: "Band A",
+      price: "$25",
+      startDate: "2025-11-08",
+      ticketLink: "https://venue.test/tickets/1001",
+    });
+    expect(events[1]).toMatchObject({ event: "The Trio", ticketLink: "" });
+  });
+});
+
+describe("findMissingSelectors", () => {
+  test("lists required selectors that match no row", async () => {
+    const source = htmlSource(listing, "https://venue.test/");
+
+    expect(await findMissingSelectors(source, selectors, ".event")).toEqual([]);
+    expect(
+      await findMissingSelectors(
+        source,
+        { ...selectors, date: ".when" },
+        ".event"
+      )
+    ).toEqual(["date"]);
+  });
+});
+
+describe("extractEventDetails", () => {
+  test("reads the configured fields", async () => {
+    const source = htmlSource(
+      `<head><meta property="og:image" content="https://cdn.test/a.jpg"></head>
+       <p class="doors">Doors:
+         7pm</p>
+       <ul><li class="act">Band A</li><li class="act"> </li><li class="act">Band B</li></ul>`,
+      "https://venue.test/shows/band-a"
+    );
+
+    expect(
+      await extractEventDetails(source, {
+        doorsTime: ".doors",
+        genre: ".genre",
+        image: 'meta[property="og:image"]',
+        lineup: ".act",
+      })
+    ).toEqual({
+      doorsTime: "Doors: 7pm",
+      genre: undefined,
+      ageRestriction: undefined,
+      description: undefined,
+      image: "https://cdn.test/a.jpg",
+      lineup: ["Band A", "Band B"],
+    });
+  });
+});
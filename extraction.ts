@@ -0,0 +1,262 @@
+import * as cheerio from "cheerio";
+import type { AnyNode } from "domhandler";
+import type { ElementHandle, Page } from "playwright";
+import type { DetailSelectors, WebsiteConfig } from "./config";
+import { buildEvent, Event, RawEventFields } from "./event";
+
+// What selectors run against: a page or listing row in the browser, or HTML
+// fetched over HTTP. Single-value methods read the first match and resolve
+// to undefined when nothing matches.
+export interface ElementSource {
+  text(selector: string): Promise<string | undefined>;
+  // Resolved against the page URL, like the browser's `href` property
+  href(selector: string): Promise<string | undefined>;
+  // An <img> src, or the content of a <meta property="og:image">
+  imageUrl(selector: string): Promise<string | undefined>;
+  // Text of every match
+  texts(selector: string): Promise<string[]>;
+  // Untrimmed text of the first match, or "" when nothing matches
+  textContent(selector: string): Promise<string>;
+  count(selector: string): Promise<number>;
+  innerHTML(selector: string): Promise<string>;
+  // Markup of every match
+  outerHTMLs(selector: string): Promise<string[]>;
+  // Resolved href of every match
+  links(selector: string): Promise<string[]>;
+  rows(selector: string): Promise<ElementSource[]>;
+}
+
+export interface PageSource extends ElementSource {
+  url(): string;
+}
+
+// What a detail page yielded, before merging into the event
+export type ScrapedDetails = Partial<
+  Record<Exclude<keyof DetailSelectors, "lineup">, string>
+> & { lineup?: string[] };
+
+function cleanText(text: string | null | undefined): string {
+  return (text ?? "").replace(/\s+/g, " ").trim();
+}
+
+function browserSource(target: Page | ElementHandle): ElementSource {
+  return {
+    text: (selector) =>
+      target
+        .$eval(selector, (el) => el.textContent?.trim() || "")
+        .catch(() => undefined),
+    href: (selector) =>
+      target
+        .$eval(selector, (el) => (el as HTMLAnchorElement).href)
+        .catch(() => undefined),
+    imageUrl: (selector) =>
+      target
+        .$eval(
+          selector,
+          (el) =>
+            (el as HTMLImageElement).src || el.getAttribute("content") || ""
+        )
+        .catch(() => undefined),
+    texts: (selector) =>
+      target
+        .$$eval(selector, (elements) =>
+          elements.map((el) => el.textContent ?? "")
+        )
+        .catch(() => []),
+    textContent: (selector) =>
+      target.$eval(selector, (el) => el.textContent ?? "").catch(() => ""),
+    count: async (selector) =>
+      (await target.$$(selector).catch(() => [])).length,
+    innerHTML: (selector) =>
+      target.$eval(selector, (el) => el.innerHTML) as Promise<string>,
+    outerHTMLs: (selector) =>
+      target
+        .$$eval(selector, (elements) =>
+          elements.map((element) => element.outerHTML)
+        )
+        .catch(() => []),
+    links: (selector) =>
+      target.$$eval(selector, (anchors) =>
+        anchors.map((anchor) => (anchor as HTMLAnchorElement).href)
+      ),
+    rows: async (selector) =>
+      (await target.$$(selector)).map((handle) => browserSource(handle)),
+  };
+}
+
+export function pageSource(page: Page): PageSource {
+  return {
+    ...browserSource(page),
+    // These wait for the element like the rest of the browser path
+    innerHTML: (selector) => page.innerHTML(selector),
+    textContent: async (selector) => (await page.textContent(selector)) ?? "",
+    url: () => page.url(),
+  };
+}
+
+type Selection = cheerio.Cheerio<AnyNode>;
+
+function resolveUrl(url: string | undefined, baseUrl: string) {
+  if (!url) return undefined;
+  try {
+    return new URL(url, baseUrl).toString();
+  } catch {
+    return url;
+  }
+}
+
+// Playwright's text= engine, which site configs use to wait for headings:
+// the innermost elements containing the text, ignoring case and spacing
+function findByText(
+  $: cheerio.CheerioAPI,
+  scope: Selection,
+  text: string
+): Selection {
+  const needle = cleanText(text.replace(/^(["'])(.*)\1$/, "$2")).toLowerCase();
+  const contains = (el: AnyNode) =>
+    cleanText($(el).text()).toLowerCase().includes(needle);
+
+  return scope.find("*").filter(
+    (_, el) =>
+      contains(el) &&
+      !$(el)
+        .children()
+        .toArray()
+        .some((child) => contains(child))
+  );
+}
+
+function selectionSource(
+  $: cheerio.CheerioAPI,
+  root: Selection | undefined,
+  baseUrl: string
+): ElementSource {
+  const all = (selector: string) =>
+    selector.startsWith("text=")
+      ? findByText($, root ?? $.root(), selector.slice("text=".length))
+      : root
+      ? root.find(selector)
+      : $(selector);
+  const first = (selector: string) => {
+    const match = all(selector).first();
+    return match.length > 0 ? match : undefined;
+  };
+
+  return {
+    text: async (selector) => first(selector)?.text().trim(),
+    href: async (selector) => {
+      const match = first(selector);
+      return match && (resolveUrl(match.attr("href"), baseUrl) ?? "");
+    },
+    imageUrl: async (selector) => {
+      const match = first(selector);
+      return (
+        match &&
+        (resolveUrl(match.attr("src"), baseUrl) ?? match.attr("content") ?? "")
+      );
+    },
+    texts: async (selector) =>
+      all(selector)
+        .toArray()
+        .map((el) => $(el).text()),
+    textContent: async (selector) => first(selector)?.text() ?? "",
+    count: async (selector) => all(selector).length,
+    innerHTML: async (selector) => {
+      const match = first(selector);
+      if (!match) throw new Error(`${selector} matches nothing on ${baseUrl}`);
+      return match.html() ?? "";
+    },
+    outerHTMLs: async (selector) =>
+      all(selector)
+        .toArray()
+        .map((el) => $.html(el)),
+    links: async (selector) =>
+      all(selector)
+        .toArray()
+        .map((el) => resolveUrl($(el).attr("href"), baseUrl) ?? ""),
+    rows: async (selector) =>
+      all(selector)
+        .toArray()
+        .map((el) => selectionSource($, $(el), baseUrl)),
+  };
+}
+
+// Parses fetched HTML; relative links resolve against `url`
+export function htmlSource(html: string, url: string): PageSource {
+  return {
+    ...selectionSource(cheerio.load(html), undefined, url),
+    url: () => url,
+  };
+}
+
+// Reads each listing row with the site's selectors and normalizes it, the
+// same way whichever fetcher loaded the page
+export async function extractListingEvents(
+  source: ElementSource,
+  selectors: WebsiteConfig["defaultSelectors"],
+  eventListSelector: string,
+  websiteKey: string,
+  venue: string
+): Promise<Event[]> {
+  const rows = await source.rows(eventListSelector);
+
+  return Promise.all(
+    rows.map(async (row) => {
+      // Rows without a venue of their own are at the site's venue
+      const raw: RawEventFields = { venue: "" };
+
+      for (const [key, selector] of Object.entries(selectors)) {
+        if (!selector) continue;
+        const field = key as keyof RawEventFields;
+
+        raw[field] =
+          (field === "ticketLink"
+            ? await row.href(selector)
+            : await row.text(selector)) ?? "";
+      }
+
+      return buildEvent(raw, websiteKey, venue);
+    })
+  );
+}
+
+// Returns the selector keys that match nothing inside the event rows
+export async function findMissingSelectors(
+  source: ElementSource,
+  selectors: WebsiteConfig["defaultSelectors"],
+  eventListSelector: string
+): Promise<string[]> {
+  const required = ["event", "date", "ticketLink"] as const;
+  const invalid: string[] = [];
+
+  for (const key of required) {
+    const matches = await source.count(
+      `${eventListSelector} ${selectors[key]}`
+    );
+    if (matches === 0) invalid.push(key);
+  }
+  return invalid;
+}
+
+// Reads the configured fields from an event page that's already loaded
+export async function extractEventDetails(
+  source: ElementSource,
+  selectors: DetailSelectors
+): Promise<ScrapedDetails> {
+  const text = async (selector?: string) => {
+    if (!selector) return undefined;
+    const value = await source.text(selector);
+    return value === undefined ? undefined : cleanText(value);
+  };
+
+  return {
+    doorsTime: await text(selectors.doorsTime),
+    ageRestriction: await text(selectors.ageRestriction),
+    genre: await text(selectors.genre),
+    description: await text(selectors.description),
+    image: selectors.image ? await source.imageUrl(selectors.image) : undefined,
+    lineup: selectors.lineup
+      ? (await source.texts(selectors.lineup)).map(cleanText).filter(Boolean)
+      : undefined,
+  };
+}
@@ -0,0 +1,26 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { writeFileAtomic } from "./files";
+
+describe("writeFileAtomic", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "files-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test("replaces the file without leaving the temporary copy", () => {
+    const file = path.join(tempDir, "data.json");
+    fs.writeFileSync(file, "old");
+
+    writeFileAtomic(file, "new");
+
+    expect(fs.readFileSync(file, "utf8")).toBe("new");
+    expect(fs.readdirSync(tempDir)).toEqual(["data.json"]);
+  });
+});
@@ -0,0 +1,9 @@
+import fs from "fs";
+
+// Writes to a temporary file and renames it into place so readers never see
+// a half-written file
+export function writeFileAtomic(file: string, data: string) {
+  const tempFile = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tempFile, data);
+  fs.renameSync(tempFile, file);
+}
@@ -0,0 +1,124 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  fixtureFile,
+  recordFixture,
+  replayFixtures,
+  trimFixtureHtml,
+} from "./fixtures";
+
+let tempDir: string;
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "fixtures-"));
+  jest.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe("fixtureFile", () => {
+  test.each([
+    ["https://snspresents.com/", "snspresents-com.html"],
+    [
+      "https://www.thestateroompresents.com/the-state-room?page=2",
+      "thestateroompresents-com-the-state-room-page-2.html",
+    ],
+  ])("names %s after its host and path", (url, name) => {
+    expect(fixtureFile("fx", "site", url)).toBe(path.join("fx", "site", name));
+  });
+
+  test("keeps long URLs unique", () => {
+    const long = `https://test.com/${"a".repeat(200)}`;
+
+    expect(fixtureFile("fx", "site", `${long}?x=1`)).not.toBe(
+      fixtureFile("fx", "site", `${long}?x=2`)
+    );
+  });
+});
+
+describe("recordFixture", () => {
+  test("saves the rendered page", async () => {
+    const page = {
+      url: () => "https://test.com/events",
+      content: jest.fn().mockResolvedValue("<html>rendered</html>"),
+    } as any;
+
+    const file = await recordFixture(page, "test", tempDir);
+
+    expect(file).toBe(path.join(tempDir, "test", "test-com-events.html"));
+    expect(fs.readFileSync(file, "utf8")).toBe("<html>rendered</html>");
+  });
+});
+
+describe("trimFixtureHtml", () => {
+  test("drops comments, styles and scripts but keeps JSON-LD", () => {
+    const html = [
+      "<html><head>",
+      "<!-- analytics -->",
+      '<script src="/app.js"></script>',
+      "<script>window.track()</script>",
+      '<script type="application/ld+json">{"@type":"Event"}</script>',
+      "<style>.row { color: red }</style>",
+      '</head><body><div class="row">Band A</div></body></html>',
+    ].join("\n");
+
+    expect(trimFixtureHtml(html)).toBe(
+      [
+        "<html><head>",
+        '<script type="application/ld+json">{"@type":"Event"}</script>',
+        '</head><body><div class="row">Band A</div></body></html>',
+      ].join("\n")
+    );
+  });
+});
+
+describe("replayFixtures", () => {
+  async function routeHandler() {
+    let handler: (route: any) => Promise<void> = async () => {};
+    const context = {
+      route: jest.fn().mockImplementation(async (_pattern, callback) => {
+        handler = callback;
+      }),
+    } as any;
+    await replayFixtures(context, "test", tempDir);
+    return handler;
+  }
+
+  function route(url: string, resourceType = "document") {
+    return {
+      request: () => ({ url: () => url, resourceType: () => resourceType }),
+      fulfill: jest.fn(),
+      abort: jest.fn(),
+    };
+  }
+
+  test("serves recorded pages", async () => {
+    const file = fixtureFile(tempDir, "test", "https://test.com/events");
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, "<html>recorded</html>");
+    const handler = await routeHandler();
+    const request = route("https://test.com/events");
+
+    await handler(request);
+
+    expect(request.fulfill).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 200, body: "<html>recorded</html>" })
+    );
+  });
+
+  test("refuses unrecorded pages and subresources", async () => {
+    const handler = await routeHandler();
+    const page = route("https://test.com/missing");
+    const script = route("https://test.com/app.js", "script");
+
+    await handler(page);
+    await handler(script);
+
+    expect(page.abort).toHaveBeenCalledWith("internetdisconnected");
+    expect(script.abort).toHaveBeenCalledWith("blockedbyclient");
+    expect(page.fulfill).not.toHaveBeenCalled();
+  });
+});
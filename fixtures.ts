@@ -0,0 +1,92 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import type { BrowserContext, Page, Route } from "playwright";
+
+export const DEFAULT_FIXTURES_DIR = path.join(__dirname, "fixtures");
+
+export type FixtureMode = "record" | "replay";
+
+export interface FixtureOptions {
+  mode: FixtureMode;
+  dir: string;
+}
+
+const MAX_SLUG_LENGTH = 100;
+
+// fixtures/<site>/<host-and-path>.html, so recordings are easy to find and
+// diff; very long URLs get a hash suffix to stay unique
+export function fixtureFile(dir: string, site: string, url: string): string {
+  const { hostname, pathname, search } = new URL(url);
+  let slug = `${hostname}${pathname}${search}`
+    .replace(/^www\./, "")
+    .replace(/[^a-z0-9]+/gi, "-")
+    .replace(/^-+|-+$/g, "")
+    .toLowerCase();
+
+  if (slug.length > MAX_SLUG_LENGTH) {
+    const hash = crypto.createHash("sha1").update(url).digest("hex");
+    slug = `${slug.slice(0, MAX_SLUG_LENGTH)}-${hash.slice(0, 8)}`;
+  }
+  return path.join(dir, site, `${slug || "index"}.html`);
+}
+
+// Recordings are committed, so drop what replays never use: comments,
+// styles and scripts other than the JSON-LD the structured data comes from
+export function trimFixtureHtml(html: string): string {
+  return html
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(
+      /<script\b(?![^>]*application\/ld\+json)[^>]*>[\s\S]*?<\/script>/gi,
+      ""
+    )
+    .replace(/<(style|noscript|iframe)\b[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/\n\s*\n/g, "\n");
+}
+
+export function writeFixture(
+  dir: string,
+  site: string,
+  url: string,
+  html: string
+): string {
+  const file = fixtureFile(dir, site, url);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, trimFixtureHtml(html));
+  return file;
+}
+
+// Saves the rendered DOM, so replays don't need the site's scripts
+export async function recordFixture(
+  page: Page,
+  site: string,
+  dir: string
+): Promise<string> {
+  return writeFixture(dir, site, page.url(), await page.content());
+}
+
+// Serves recorded pages in place of the network; everything else (scripts,
+// images, unrecorded pages) is refused so replays are fully offline
+export async function replayFixtures(
+  context: BrowserContext,
+  site: string,
+  dir: string
+) {
+  await context.route("**/*", async (route: Route) => {
+    const request = route.request();
+    if (request.resourceType() !== "document") {
+      return route.abort("blockedbyclient");
+    }
+
+    const file = fixtureFile(dir, site, request.url());
+    if (!fs.existsSync(file)) {
+      console.warn(`No fixture for ${request.url()} (expected ${file})`);
+      return route.abort("internetdisconnected");
+    }
+    return route.fulfill({
+      status: 200,
+      contentType: "text/html; charset=utf-8",
+      body: fs.readFileSync(file, "utf8"),
+    });
+  });
+}
@@ -0,0 +1,78 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { NavigationError } from "./errors";
+import { fixtureFile, writeFixture } from "./fixtures";
+import { fetchHtml, USER_AGENT } from "./httpFetcher";
+
+let tempDir: string;
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "http-"));
+});
+
+afterEach(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+function respond(body: string, status = 200) {
+  return jest.fn(
+    async (_url: string | URL | Request, _init?: RequestInit) =>
+      new Response(body, { status })
+  );
+}
+
+describe("fetchHtml", () => {
+  const url = "https://venue.test/calendar";
+
+  test("downloads the page with a user agent", async () => {
+    const fetch = respond("<p>Shows</p>");
+
+    expect(await fetchHtml(url, { site: "venue", fetch })).toBe("<p>Shows</p>");
+    expect(fetch.mock.calls[0][1]?.headers).toMatchObject({
+      "User-Agent": USER_AGENT,
+    });
+  });
+
+  test("fails with the status of error responses", async () => {
+    await expect(
+      fetchHtml(url, { site: "venue", fetch: respond("", 503) })
+    ).rejects.toThrow(`Could not load ${url}: HTTP 503`);
+  });
+
+  test("wraps network errors", async () => {
+    const fetch = jest.fn(async () => {
+      throw new TypeError("fetch failed");
+    });
+
+    await expect(fetchHtml(url, { site: "venue", fetch })).rejects.toThrow(
+      NavigationError
+    );
+  });
+
+  test("records fixtures", async () => {
+    await fetchHtml(url, {
+      site: "venue",
+      fixtures: { mode: "record", dir: tempDir },
+      fetch: respond("<p>Shows</p>"),
+    });
+
+    expect(fs.readFileSync(fixtureFile(tempDir, "venue", url), "utf8")).toBe(
+      "<p>Shows</p>"
+    );
+  });
+
+  test("replays fixtures without the network", async () => {
+    writeFixture(tempDir, "venue", url, "<p>Recorded</p>");
+    const fetch = respond("<p>Live</p>");
+    const fixtures = { mode: "replay" as const, dir: tempDir };
+
+    expect(await fetchHtml(url, { site: "venue", fixtures, fetch })).toBe(
+      "<p>Recorded</p>"
+    );
+    await expect(
+      fetchHtml(`${url}?page=2`, { site: "venue", fixtures, fetch })
+    ).rejects.toThrow(/no fixture/);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
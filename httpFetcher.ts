@@ -0,0 +1,58 @@
+import fs from "fs";
+import { NavigationError } from "./errors";
+import { FixtureOptions, fixtureFile, writeFixture } from "./fixtures";
+
+// Per request; the site's overall timeout still applies on top
+export const DEFAULT_FETCH_TIMEOUT_MS = 30 * 1000;
+
+// Some venue sites refuse requests without a browser-like user agent
+export const USER_AGENT =
+  "Mozilla/5.0 (compatible; slc-event-scraper; +https://github.com/mattwoodco/slc-event-scraper)";
+
+export interface FetchHtmlOptions {
+  site: string;
+  fixtures?: FixtureOptions;
+  timeoutMs?: number;
+  fetch?: typeof fetch;
+}
+
+// Downloads a page's HTML as the server sends it, without running scripts.
+// Fixtures are read and recorded like the browser path does.
+export async function fetchHtml(
+  url: string,
+  options: FetchHtmlOptions
+): Promise<string> {
+  const { fixtures, site } = options;
+
+  if (fixtures?.mode === "replay") {
+    const file = fixtureFile(fixtures.dir, site, url);
+    if (!fs.existsSync(file)) {
+      throw new NavigationError(`Could not load ${url}: no fixture at ${file}`);
+    }
+    return fs.readFileSync(file, "utf8");
+  }
+
+  const request = options.fetch ?? fetch;
+  let response: Response;
+  try {
+    response = await request(url, {
+      headers: { "User-Agent": USER_AGENT, Accept: "text/html" },
+      signal: AbortSignal.timeout(
+        options.timeoutMs ?? DEFAULT_FETCH_TIMEOUT_MS
+      ),
+    });
+  } catch (error) {
+    throw new NavigationError(`Could not load ${url}`, error);
+  }
+  if (!response.ok) {
+    throw new NavigationError(
+      `Could not load ${url}: HTTP ${response.status} ${response.statusText}`
+    );
+  }
+
+  const html = await response.text();
+  if (fixtures?.mode === "record") {
+    writeFixture(fixtures.dir, site, url, html);
+  }
+  return html;
+}
@@ -0,0 +1,109 @@
+import {
+  buildSelectorPrompt,
+  buildTaggingPrompt,
+  DEFAULT_LLM_CONFIG,
+  llmConfigFromEnv,
+  resolveLlmConfig,
+  trimHtml,
+} from "./llm";
+
+describe("resolveLlmConfig", () => {
+  test("defaults to the local Ollama server", () => {
+    expect(resolveLlmConfig({}, {})).toEqual(DEFAULT_LLM_CONFIG);
+  });
+
+  test("reads settings from the environment", () => {
+    const env = {
+      LLM_BASE_URL: "https://llm.test/v1",
+      LLM_API_KEY: "secret",
+      LLM_MODEL: "gpt-4o-mini",
+      LLM_TEMPERATURE: "0.2",
+      LLM_TIMEOUT_MS: "5000",
+      LLM_MAX_HTML_CHARS: "1000",
+    };
+
+    expect(resolveLlmConfig({}, env)).toMatchObject({
+      baseURL: "https://llm.test/v1",
+      apiKey: "secret",
+      model: "gpt-4o-mini",
+      temperature: 0.2,
+      timeoutMs: 5000,
+      maxHtmlChars: 1000,
+    });
+  });
+
+  test("lets per-site overrides win over the environment", () => {
+    expect(
+      resolveLlmConfig({ model: "site-model" }, { LLM_MODEL: "env-model" })
+        .model
+    ).toBe("site-model");
+  });
+
+  test("ignores blank or non-numeric environment values", () => {
+    expect(
+      llmConfigFromEnv({ LLM_TEMPERATURE: "warm", LLM_TIMEOUT_MS: "" })
+    ).toEqual({});
+  });
+
+  test("rejects invalid settings", () => {
+    expect(() => resolveLlmConfig({ temperature: 5 }, {})).toThrow();
+  });
+});
+
+describe("trimHtml", () => {
+  test("strips scripts, styles, comments and noisy attributes", () => {
+    const html = `
+      <div class="row" data-track="1" style="color:red">
+        <!-- comment -->
+        <script>window.track()</script>
+        <style>.row { color: red }</style>
+        <a href="/tickets" onclick="buy()" class="up-link">Tickets</a>
+        <img src="poster.jpg" alt="Poster" />
+      </div>`;
+
+    expect(trimHtml(html, 1000)).toBe(
+      '<div class="row"><a href="/tickets" class="up-link">Tickets</a><img></div>'
+    );
+  });
+
+  // Backtracking made this exponential in the number of attributes
+  test("keeps up with an unclosed tag full of attributes", () => {
+    const html = `<p class="x" id="y">one</p><div${' data-a="1"'.repeat(
+      10000
+    )}`;
+
+    expect(trimHtml(html, 1000)).toBe('<p class="x" id="y">one</p>');
+  }, 10000);
+
+  test("cuts oversized HTML at a tag boundary", () => {
+    const html = "<p>one</p><p>two</p><p>three</p>";
+
+    expect(trimHtml(html, 15)).toBe("<p>one</p>");
+  });
+});
+
+describe("buildSelectorPrompt", () => {
+  test("fills in examples and HTML", () => {
+    const prompt = buildSelectorPrompt(
+      "<div>$&</div>",
+      [{ selectors: { event: ".title" } }],
+      "Examples:\n{{examples}}\nHTML: {{html}}"
+    );
+
+    expect(prompt).toBe(
+      'Examples:\n{"selectors":{"event":".title"}}\nHTML: <div>$&</div>'
+    );
+  });
+});
+
+describe("buildTaggingPrompt", () => {
+  test("fills in tags and events", () => {
+    expect(
+      buildTaggingPrompt(
+        ["0. Band A", "1. $& Comedy"],
+        ["rock", "comedy"],
+        "Tags: {{tags}}\n{{events}}"
+      )
+    ).toBe("Tags: rock, comedy\n0. Band A\n1. $& Comedy");
+  });
+});
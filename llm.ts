@@ -0,0 +1,162 @@
+import { createOpenAI } from "@ai-sdk/openai";
+import { z } from "zod";
+
+export const LlmConfigSchema = z.object({
+  baseURL: z.string().url(),
+  apiKey: z.string(),
+  model: z.string(),
+  temperature: z.number().min(0).max(2),
+  timeoutMs: z.number().int().positive(),
+  // HTML beyond this many characters (after trimming) is cut off
+  maxHtmlChars: z.number().int().positive(),
+  // Supports {{examples}} and {{html}} placeholders
+  promptTemplate: z.string(),
+  // Used by the "llm" and "hybrid" strategies; supports an {{html}} placeholder
+  extractionPromptTemplate: z.string(),
+  // Used to tag events; supports {{tags}} and {{events}} placeholders
+  taggingPromptTemplate: z.string(),
+});
+
+export type LlmConfig = z.infer<typeof LlmConfigSchema>;
+
+export const DEFAULT_SELECTOR_PROMPT_TEMPLATE = `You are given the HTML of an events listing. Provide CSS selectors, relative to a single event row, for the venue, price, event, date, ticketLink, subtitle, pretitle, and time elements of each event listed.
+
+Known-good selectors from similar sites:
+{{examples}}
+
+HTML:
+{{html}}`;
+
+export const DEFAULT_EXTRACTION_PROMPT_TEMPLATE = `You are given the HTML of part of an events listing. List every event it contains with its venue, price, event title, date (including any time shown) and ticketLink (the href of its ticket or detail link).
+
+Copy each value exactly as it appears on the page. Do not reformat, infer or invent values; use an empty string for anything the page does not show.
+
+HTML:
+{{html}}`;
+
+export const DEFAULT_TAGGING_PROMPT_TEMPLATE = `You are given numbered events from Salt Lake City venue listings. For each event, choose the categories that fit it from this list: {{tags}}
+
+Use what you know about the performers as well as the text given. Give each category a confidence from 0 to 1, and leave out any category you are unsure of.
+
+Events:
+{{events}}`;
+
+export const DEFAULT_LLM_CONFIG: LlmConfig = {
+  baseURL: "http://localhost:11434/v1",
+  apiKey: "",
+  model: "llama3:latest",
+  temperature: 0,
+  timeoutMs: 60000,
+  maxHtmlChars: 20000,
+  promptTemplate: DEFAULT_SELECTOR_PROMPT_TEMPLATE,
+  extractionPromptTemplate: DEFAULT_EXTRACTION_PROMPT_TEMPLATE,
+  taggingPromptTemplate: DEFAULT_TAGGING_PROMPT_TEMPLATE,
+};
+
+function numberFromEnv(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === "") return undefined;
+  const parsed = Number(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+// Reads LLM_BASE_URL, LLM_API_KEY, LLM_MODEL, LLM_TEMPERATURE,
+// LLM_TIMEOUT_MS and LLM_MAX_HTML_CHARS
+export function llmConfigFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): Partial<LlmConfig> {
+  const config: Partial<LlmConfig> = {
+    baseURL: env.LLM_BASE_URL,
+    apiKey: env.LLM_API_KEY,
+    model: env.LLM_MODEL,
+    temperature: numberFromEnv(env.LLM_TEMPERATURE),
+    timeoutMs: numberFromEnv(env.LLM_TIMEOUT_MS),
+    maxHtmlChars: numberFromEnv(env.LLM_MAX_HTML_CHARS),
+  };
+  return Object.fromEntries(
+    Object.entries(config).filter(([, value]) => value !== undefined)
+  );
+}
+
+// Defaults, then environment, then per-site overrides
+export function resolveLlmConfig(
+  overrides: Partial<LlmConfig> = {},
+  env: NodeJS.ProcessEnv = process.env
+): LlmConfig {
+  return LlmConfigSchema.parse({
+    ...DEFAULT_LLM_CONFIG,
+    ...llmConfigFromEnv(env),
+    ...overrides,
+  });
+}
+
+export function createLlmModel(config: LlmConfig) {
+  const provider = createOpenAI({
+    baseURL: config.baseURL,
+    apiKey: config.apiKey,
+  });
+  return provider(config.model);
+}
+
+// Attributes selectors can use; everything else is noise for the model
+const KEPT_ATTRIBUTES = ["class", "id", "href"];
+
+export function trimHtml(html: string, maxChars: number): string {
+  const trimmed = html
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<(script|style|noscript|svg|template)\b[\s\S]*?<\/\1>/gi, "")
+    // Each character of a tag can match only one way, so this stays linear
+    // on long or unclosed tags
+    .replace(
+      /<([a-z][a-z0-9-]*)(?=[\s/>])((?:"[^"]*"|'[^']*'|[^'"<>])*)>/gi,
+      (_, tag: string, attributes: string) => {
+        const kept = [
+          ...attributes.matchAll(
+            /([^\s=>]+)(?:\s*=\s*("[^"]*"|'[^']*'|[^\s>]+))?/g
+          ),
+        ]
+          .filter(([, name]) => KEPT_ATTRIBUTES.includes(name.toLowerCase()))
+          .map(([attribute]) => ` ${attribute}`)
+          .join("");
+        return `<${tag}${kept}>`;
+      }
+    )
+    .replace(/\s+/g, " ")
+    .replace(/>\s+</g, "><")
+    .trim();
+
+  if (trimmed.length <= maxChars) return trimmed;
+
+  // Cut at a tag boundary so the model doesn't see half a tag
+  const cut = trimmed.lastIndexOf("<", maxChars);
+  return trimmed.slice(0, cut > 0 ? cut : maxChars);
+}
+
+export function buildSelectorPrompt(
+  html: string,
+  examples: object[],
+  template: string = DEFAULT_SELECTOR_PROMPT_TEMPLATE
+): string {
+  const exampleText = examples.length
+    ? examples.map((example) => JSON.stringify(example)).join("\n")
+    : "(none)";
+  return template
+    .replace("{{examples}}", () => exampleText)
+    .replace("{{html}}", () => html);
+}
+
+export function buildExtractionPrompt(
+  html: string,
+  template: string = DEFAULT_EXTRACTION_PROMPT_TEMPLATE
+): string {
+  return template.replace("{{html}}", () => html);
+}
+
+export function buildTaggingPrompt(
+  events: string[],
+  tags: string[],
+  template: string = DEFAULT_TAGGING_PROMPT_TEMPLATE
+): string {
+  return template
+    .replace("{{tags}}", () => tags.join(", "))
+    .replace("{{events}}", () => events.join("\n"));
+}
@@ -0,0 +1,196 @@
+import { generateObject } from "ai";
+import type { WebsiteConfig } from "./config";
+import { LlmError } from "./errors";
+import { pageSource } from "./extraction";
+import {
+  chunkHtml,
+  crossCheckEvent,
+  extractEventsWithLLM,
+  PageEvidence,
+} from "./llmExtract";
+
+jest.mock("ai", () => ({
+  generateObject: jest.fn(),
+}));
+
+const evidence: PageEvidence = {
+  text: "Band A with Band B Thu, Jul 4 Doors 7pm $25 The State Room Tickets",
+  links: ["https://tickets.test/band-a?utm=1", "https://test.com/about"],
+  url: "https://test.com/events",
+};
+
+const extracted = {
+  venue: "The State Room",
+  price: "$25",
+  event: "Band A with Band B",
+  date: "Thu, Jul 4 Doors 7pm",
+  ticketLink: "https://tickets.test/band-a",
+};
+
+describe("chunkHtml", () => {
+  test("packs whole rows into chunks", () => {
+    const rows = ["<li>one</li>", "<li>two</li>", "<li>three</li>"];
+
+    expect(chunkHtml(rows, 25)).toEqual([
+      "<li>one</li><li>two</li>",
+      "<li>three</li>",
+    ]);
+  });
+
+  test("splits an oversized row at tag boundaries", () => {
+    expect(chunkHtml(["<ul><li>one</li><li>two</li></ul>"], 16)).toEqual([
+      "<ul><li>one</li>",
+      "<li>two</li>",
+      "</ul>",
+    ]);
+  });
+});
+
+describe("crossCheckEvent", () => {
+  test("accepts values found on the page", () => {
+    expect(crossCheckEvent(extracted, evidence)).toEqual({
+      event: extracted,
+      rejected: [],
+    });
+  });
+
+  test("ignores spacing and punctuation differences", () => {
+    const { rejected } = crossCheckEvent(
+      { ...extracted, date: "Thu Jul 4, doors 7PM" },
+      { ...evidence, text: evidence.text.replace(/ /g, "") }
+    );
+
+    expect(rejected).toEqual([]);
+  });
+
+  test("blanks invented prices, venues and links", () => {
+    const { event, rejected } = crossCheckEvent(
+      {
+        ...extracted,
+        venue: "Red Butte Garden",
+        price: "$40",
+        ticketLink: "https://tickets.test/made-up",
+      },
+      evidence
+    );
+
+    expect(rejected).toEqual(["venue", "price", "ticketLink"]);
+    expect(event).toMatchObject({ venue: "", price: "", ticketLink: "" });
+  });
+
+  test("resolves relative links against the page", () => {
+    const { event } = crossCheckEvent(
+      { ...extracted, ticketLink: "/about" },
+      evidence
+    );
+
+    expect(event?.ticketLink).toBe("https://test.com/about");
+  });
+
+  test("drops listings with an invented title or date", () => {
+    expect(
+      crossCheckEvent({ ...extracted, event: "Band Z" }, evidence).event
+    ).toBeUndefined();
+    expect(
+      crossCheckEvent({ ...extracted, date: "Fri, Jul 5" }, evidence).event
+    ).toBeUndefined();
+  });
+});
+
+describe("extractEventsWithLLM", () => {
+  const config: WebsiteConfig = {
+    url: "https://test.com/events",
+    venue: "Test Venue",
+    eventListSelector: ".row",
+    eventSectionSelector: ".section",
+    defaultSelectors: {
+      venue: ".venue",
+      price: ".price",
+      event: ".event",
+      date: ".date",
+      ticketLink: ".ticket",
+    },
+    llm: { maxHtmlChars: 30 },
+  };
+
+  function mockPage() {
+    return {
+      $$eval: jest
+        .fn()
+        .mockImplementation((selector: string) =>
+          Promise.resolve(
+            selector === ".row"
+              ? [
+                  "<div class='row'>Band A</div>",
+                  "<div class='row'>Band B</div>",
+                ]
+              : evidence.links
+          )
+        ),
+      innerHTML: jest.fn(),
+      textContent: jest.fn().mockResolvedValue(evidence.text),
+      url: () => evidence.url,
+    } as any;
+  }
+
+  beforeEach(() => {
+    (generateObject as jest.Mock).mockReset();
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  test("extracts, cross-checks and normalizes events chunk by chunk", async () => {
+    (generateObject as jest.Mock)
+      .mockResolvedValueOnce({ object: { events: [extracted] } })
+      .mockResolvedValueOnce({
+        object: {
+          events: [extracted, { ...extracted, event: "Hallucinated Act" }],
+        },
+      });
+
+    const events = await extractEventsWithLLM(
+      pageSource(mockPage()),
+      config,
+      "testSite"
+    );
+
+    expect(generateObject).toHaveBeenCalledTimes(2);
+    expect((generateObject as jest.Mock).mock.calls[0][0].prompt).toContain(
+      "<div class='row'>Band A</div>"
+    );
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      website: "testSite",
+      venue: "The State Room",
+      price: "$25",
+      event: "Band A with Band B",
+      startDate: expect.stringMatching(/-07-04$/),
+      doorsTime: expect.stringMatching(/-07-04T19:00:00-06:00$/),
+      ticketLink: "https://tickets.test/band-a",
+    });
+  });
+
+  test("skips chunks the model fails on", async () => {
+    (generateObject as jest.Mock)
+      .mockRejectedValueOnce(new Error("timeout"))
+      .mockResolvedValueOnce({
+        object: { events: [{ ...extracted, venue: "" }] },
+      });
+
+    const events = await extractEventsWithLLM(
+      pageSource(mockPage()),
+      config,
+      "testSite"
+    );
+
+    expect(events).toHaveLength(1);
+    expect(events[0].venue).toBe("Test Venue");
+  });
+
+  test("throws an LlmError when the model fails on every chunk", async () => {
+    (generateObject as jest.Mock).mockRejectedValue(new Error("offline"));
+
+    await expect(
+      extractEventsWithLLM(pageSource(mockPage()), config, "testSite")
+    ).rejects.toBeInstanceOf(LlmError);
+  });
+});
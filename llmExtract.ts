@@ -0,0 +1,194 @@
+import { generateObject } from "ai";
+import { z } from "zod";
+import type { WebsiteConfig } from "./config";
+import { LlmError } from "./errors";
+import { buildEvent, Event, EventSchema, removeSearchParams } from "./event";
+import type { PageSource } from "./extraction";
+import {
+  buildExtractionPrompt,
+  createLlmModel,
+  resolveLlmConfig,
+  trimHtml,
+} from "./llm";
+
+// The fields a listing shows; dates, prices and IDs are derived afterwards
+// exactly as for selector-scraped rows
+export const ExtractedEventSchema = EventSchema.pick({
+  venue: true,
+  price: true,
+  event: true,
+  date: true,
+  ticketLink: true,
+});
+
+export type ExtractedEvent = z.infer<typeof ExtractedEventSchema>;
+
+// What the model's answers are checked against
+export interface PageEvidence {
+  text: string;
+  // Absolute hrefs of every link in the events section
+  links: string[];
+  url: string;
+}
+
+// Packs whole rows into chunks of at most maxChars, splitting only rows that
+// are too large on their own, at a tag boundary
+export function chunkHtml(rows: string[], maxChars: number): string[] {
+  const chunks: string[] = [];
+  let current = "";
+
+  for (const row of rows) {
+    let rest = trimHtml(row, Infinity);
+    while (rest) {
+      const cut =
+        rest.length <= maxChars ? rest.length : rest.lastIndexOf("<", maxChars);
+      const piece = rest.slice(0, cut > 0 ? cut : maxChars);
+      rest = rest.slice(piece.length);
+
+      if (current && current.length + piece.length > maxChars) {
+        chunks.push(current);
+        current = "";
+      }
+      current += piece;
+    }
+  }
+
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+// Compares letters and digits only, since textContent runs adjacent
+// elements together and the model may not keep the page's spacing
+function normalizeText(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "");
+}
+
+function resolveLink(link: string, base: string): string {
+  try {
+    return new URL(link, base).toString();
+  } catch {
+    return link;
+  }
+}
+
+// Blanks every field that doesn't appear on the page, and drops the listing
+// altogether if that leaves it without a title or date
+export function crossCheckEvent(
+  extracted: ExtractedEvent,
+  evidence: PageEvidence
+): { event?: ExtractedEvent; rejected: (keyof ExtractedEvent)[] } {
+  const pageText = normalizeText(evidence.text);
+  const checked = { ...extracted };
+  const rejected: (keyof ExtractedEvent)[] = [];
+
+  for (const field of ["venue", "price", "event", "date"] as const) {
+    const value = normalizeText(checked[field]);
+    if (checked[field] && !(value && pageText.includes(value))) {
+      rejected.push(field);
+      checked[field] = "";
+    }
+  }
+
+  if (checked.ticketLink) {
+    const link = removeSearchParams(
+      resolveLink(checked.ticketLink, evidence.url)
+    );
+    if (evidence.links.some((href) => removeSearchParams(href) === link)) {
+      checked.ticketLink = link;
+    } else {
+      rejected.push("ticketLink");
+      checked.ticketLink = "";
+    }
+  }
+
+  return {
+    event: checked.event && checked.date ? checked : undefined,
+    rejected,
+  };
+}
+
+export async function extractEventsWithLLM(
+  source: PageSource,
+  config: WebsiteConfig,
+  websiteKey: string
+): Promise<Event[]> {
+  const llm = resolveLlmConfig(config.llm);
+  const model = createLlmModel(llm);
+
+  const rows = await source.outerHTMLs(config.eventListSelector);
+  const chunks = chunkHtml(
+    rows.length ? rows : [await source.innerHTML(config.eventSectionSelector)],
+    llm.maxHtmlChars
+  );
+
+  const evidence: PageEvidence = {
+    text: await source.textContent(config.eventSectionSelector),
+    links: await source.links(`${config.eventSectionSelector} a[href]`),
+    url: source.url(),
+  };
+
+  const events: Event[] = [];
+  const seen = new Set<string>();
+  let lastError: unknown;
+  let failedChunks = 0;
+
+  for (const chunk of chunks) {
+    let extracted: ExtractedEvent[];
+    try {
+      const { object } = await generateObject({
+        model,
+        schema: z.object({ events: z.array(ExtractedEventSchema) }),
+        prompt: buildExtractionPrompt(chunk, llm.extractionPromptTemplate),
+        temperature: llm.temperature,
+        abortSignal: AbortSignal.timeout(llm.timeoutMs),
+      });
+      extracted = object.events;
+    } catch (error) {
+      console.warn(`LLM extraction failed for part of ${websiteKey}:`, error);
+      lastError = error;
+      failedChunks++;
+      continue;
+    }
+
+    for (const candidate of extracted) {
+      const { event, rejected } = crossCheckEvent(candidate, evidence);
+      if (rejected.length > 0) {
+        console.warn(
+          `${websiteKey}: "${candidate.event}" has ${rejected.join(
+            ", "
+          )} not found on the page`
+        );
+      }
+      if (!event) continue;
+
+      const parsed = EventSchema.safeParse(
+        buildEvent(event, websiteKey, config.venue)
+      );
+      if (!parsed.success) continue;
+
+      // Rows can straddle chunk boundaries and be listed twice
+      const key = [
+        parsed.data.event,
+        parsed.data.date,
+        parsed.data.ticketLink,
+      ].join("|");
+      if (seen.has(key)) continue;
+      seen.add(key);
+      events.push(parsed.data);
+    }
+  }
+
+  if (chunks.length > 0 && failedChunks === chunks.length) {
+    throw new LlmError(
+      `LLM extraction failed for ${websiteKey}: ${
+        lastError instanceof Error ? lastError.message : lastError
+      }`,
+      lastError
+    );
+  }
+  return events;
+}
@@ -5,12 +5,18 @@ import * as mainModule from "./main";
 import {
   Event,
   formatDate,
-  getSelectorsFromLLM,
+  formatRunSummary,
   removeSearchParams,
+  scrapeAllPages,
   scrapeEvents,
+  scrapeSite,
   scrapeWebsite,
+  scrapeWithSelectorFallback,
+  scrapeWithStrategy,
   WebsiteConfig,
 } from "./main";
+import { NavigationError, ScrapeError, SiteTimeoutError } from "./errors";
+import { createSelectorCache } from "./selectorCache";
 
 jest.mock("playwright", () => ({
   chromium: {
@@ -39,6 +45,7 @@ jest.mock("playwright", () => ({
 
 jest.mock("fs", () => ({
   writeFileSync: jest.fn(),
+  renameSync: jest.fn(),
 }));
 
 jest.mock("ai", () => ({
@@ -96,54 +103,6 @@ describe("Utility Functions", () => {
   });
 });
 
-describe("LLM Interaction", () => {
-  describe("getSelectorsFromLLM", () => {
-    const mockDefaultSelectors: WebsiteConfig["defaultSelectors"] = {
-      venue: ".venue",
-      price: ".price",
-      event: ".event",
-      date: ".date",
-      ticketLink: ".ticket",
-    };
-
-    test("returns LLM-generated selectors when successful", async () => {
-      (generateObject as jest.Mock).mockResolvedValue({
-        object: {
-          selectors: {
-            venue: ".new-venue",
-            price: ".new-price",
-            event: ".new-event",
-            date: ".new-date",
-            ticketLink: ".new-ticket",
-          },
-        },
-      });
-
-      const result = await getSelectorsFromLLM(
-        "<div>Mock HTML</div>",
-        mockDefaultSelectors
-      );
-      expect(result).toEqual({
-        venue: ".new-venue",
-        price: ".new-price",
-        event: ".new-event",
-        date: ".new-date",
-        ticketLink: ".new-ticket",
-      });
-    });
-
-    test("returns default selectors when LLM fails", async () => {
-      (generateObject as jest.Mock).mockRejectedValue(new Error("LLM failed"));
-
-      const result = await getSelectorsFromLLM(
-        "<div>Mock HTML</div>",
-        mockDefaultSelectors
-      );
-      expect(result).toEqual(mockDefaultSelectors);
-    });
-  });
-});
-
 describe("Scraping Functions", () => {
   describe("scrapeEvents", () => {
     let mockPage: jest.Mocked<any>;
@@ -192,6 +151,372 @@ describe("Scraping Functions", () => {
     });
   });
 
+  describe("scrapeWithSelectorFallback", () => {
+    const config: WebsiteConfig = {
+      url: "https://test.com",
+      venue: "Test Venue",
+      eventListSelector: ".row",
+      eventSectionSelector: ".section",
+      defaultSelectors: {
+        venue: ".venue",
+        price: ".price",
+        event: ".event",
+        date: ".date",
+        ticketLink: ".ticket",
+      },
+    };
+
+    // Rows only contain elements for the given class names
+    function mockPage(availableSelectors: string[]) {
+      const row = {
+        $eval: jest.fn().mockImplementation((selector: string) => {
+          if (!availableSelectors.includes(selector)) {
+            return Promise.reject(new Error("No element"));
+          }
+          if (selector.includes("date")) return Promise.resolve("Jul 4, 2024");
+          if (selector.includes("ticket")) {
+            return Promise.resolve("https://tickets.test/a");
+          }
+          return Promise.resolve("Band A");
+        }),
+      };
+      return {
+        innerHTML: jest.fn().mockResolvedValue("<div>rows</div>"),
+        textContent: jest.fn().mockResolvedValue("Band A Jul 4, 2024"),
+        url: () => "https://test.com",
+        $$eval: jest
+          .fn()
+          .mockImplementation((selector: string) =>
+            Promise.resolve(
+              selector === ".row"
+                ? ["<div>row</div>"]
+                : ["https://tickets.test/a"]
+            )
+          ),
+        $$: jest.fn().mockImplementation((selector: string) => {
+          if (selector === ".row") return Promise.resolve([row, row]);
+          const inner = selector.replace(/^\.row /, "");
+          return Promise.resolve(
+            availableSelectors.includes(inner) ? [row] : []
+          );
+        }),
+      } as any;
+    }
+
+    beforeEach(() => {
+      (generateObject as jest.Mock).mockReset();
+    });
+
+    test("keeps working default selectors without calling the LLM", async () => {
+      const page = mockPage([".event", ".date", ".ticket"]);
+
+      const result = await scrapeWithSelectorFallback(page, config, "testSite");
+
+      expect(result.selectorSource).toBe("default");
+      expect(result.selectorScore).toBe(1);
+      expect(result.events).toHaveLength(2);
+      expect(generateObject).not.toHaveBeenCalled();
+    });
+
+    test("falls back to validated LLM selectors when defaults break", async () => {
+      const page = mockPage([".new-event", ".new-date", ".new-ticket"]);
+      (generateObject as jest.Mock).mockResolvedValue({
+        object: {
+          selectors: {
+            venue: ".new-venue",
+            price: ".new-price",
+            event: ".new-event",
+            date: ".new-date",
+            ticketLink: ".new-ticket",
+          },
+        },
+      });
+
+      const result = await scrapeWithSelectorFallback(page, config, "testSite");
+
+      expect(generateObject).toHaveBeenCalledTimes(1);
+      expect(result.selectorSource).toBe("llm");
+      expect(result.selectors.event).toBe(".new-event");
+      expect(result.events[0]).toMatchObject({
+        event: "Band A",
+        date: "Thu, Jul 4, 2024",
+      });
+    });
+
+    test("caches accepted LLM selectors and reuses them", async () => {
+      const llmSelectors = {
+        venue: ".new-venue",
+        price: ".new-price",
+        event: ".new-event",
+        date: ".new-date",
+        ticketLink: ".new-ticket",
+      };
+      (generateObject as jest.Mock).mockResolvedValue({
+        object: { selectors: llmSelectors },
+      });
+      const selectorCache = createSelectorCache();
+
+      await scrapeWithSelectorFallback(
+        mockPage([".new-event", ".new-date", ".new-ticket"]),
+        config,
+        "testSite",
+        { selectorCache }
+      );
+      const result = await scrapeWithSelectorFallback(
+        mockPage([".new-event", ".new-date", ".new-ticket"]),
+        config,
+        "testSite",
+        { selectorCache }
+      );
+
+      expect(generateObject).toHaveBeenCalledTimes(1);
+      expect(result.selectorSource).toBe("cache");
+      expect(result.selectors).toEqual(llmSelectors);
+      expect(selectorCache.sites.testSite.history).toHaveLength(1);
+    });
+
+    test("rejects LLM selectors that match nothing on the page", async () => {
+      const page = mockPage([".event"]);
+      (generateObject as jest.Mock).mockResolvedValue({
+        object: {
+          selectors: {
+            venue: ".venue",
+            price: ".price",
+            event: ".event",
+            date: ".made-up-date",
+            ticketLink: ".made-up-ticket",
+          },
+        },
+      });
+
+      const result = await scrapeWithSelectorFallback(page, config, "testSite");
+
+      expect(result.selectorSource).toBe("default");
+      expect(result.selectors).toBe(config.defaultSelectors);
+    });
+  });
+
+  describe("scrapeWithStrategy", () => {
+    const config: WebsiteConfig = {
+      url: "https://test.com",
+      venue: "Test Venue",
+      eventListSelector: ".row",
+      eventSectionSelector: ".section",
+      defaultSelectors: {
+        venue: ".venue",
+        price: ".price",
+        event: ".event",
+        date: ".date",
+        ticketLink: ".ticket",
+      },
+    };
+    const extracted = {
+      venue: "",
+      price: "",
+      event: "Band A",
+      date: "Jul 4, 2024",
+      ticketLink: "https://tickets.test/a",
+    };
+
+    // Every selector matches nothing, so only the model can find events
+    const page = {
+      innerHTML: jest.fn().mockResolvedValue("<div>rows</div>"),
+      textContent: jest.fn().mockResolvedValue("Band A Jul 4, 2024"),
+      url: () => "https://test.com",
+      $$: jest.fn().mockResolvedValue([]),
+      $$eval: jest
+        .fn()
+        .mockImplementation((selector: string) =>
+          Promise.resolve(
+            selector === ".row" ? ["<div>row</div>"] : [extracted.ticketLink]
+          )
+        ),
+    } as any;
+
+    beforeEach(() => {
+      (generateObject as jest.Mock).mockReset();
+    });
+
+    test("extracts events directly with the llm strategy", async () => {
+      (generateObject as jest.Mock).mockResolvedValue({
+        object: { events: [extracted] },
+      });
+
+      const result = await scrapeWithStrategy(
+        page,
+        { ...config, strategy: "llm" },
+        "testSite"
+      );
+
+      expect(generateObject).toHaveBeenCalledTimes(1);
+      expect(result.selectorSource).toBe("extraction");
+      expect(result.events[0]).toMatchObject({
+        venue: "Test Venue",
+        event: "Band A",
+        date: "Thu, Jul 4, 2024",
+      });
+    });
+
+    test("falls back to extraction when hybrid selectors come up empty", async () => {
+      (generateObject as jest.Mock)
+        .mockRejectedValueOnce(new Error("no selectors"))
+        .mockResolvedValueOnce({ object: { events: [extracted] } });
+
+      const result = await scrapeWithStrategy(
+        page,
+        { ...config, strategy: "hybrid" },
+        "testSite"
+      );
+
+      expect(generateObject).toHaveBeenCalledTimes(2);
+      expect(result.selectorSource).toBe("extraction");
+      expect(result.selectorScore).toBe(1);
+    });
+
+    test("never calls the model for extraction by default", async () => {
+      (generateObject as jest.Mock).mockRejectedValue(new Error("offline"));
+
+      const result = await scrapeWithStrategy(page, config, "testSite");
+
+      expect(generateObject).toHaveBeenCalledTimes(1);
+      expect(result.selectorSource).toBe("default");
+    });
+  });
+
+  describe("scrapeAllPages", () => {
+    const config: WebsiteConfig = {
+      url: "https://test.com",
+      venue: "Test Venue",
+      eventListSelector: ".row",
+      eventSectionSelector: ".section",
+      defaultSelectors: {
+        venue: ".venue",
+        price: ".price",
+        event: ".event",
+        date: ".date",
+        ticketLink: ".ticket",
+      },
+      pagination: { nextPageSelector: ".next", maxEvents: 3 },
+    };
+
+    // Each page lists "Band <page>-1" and "Band <page>-2"; the first row on
+    // page 2 repeats the last one on page 1
+    function pagedSite() {
+      let pageNumber = 1;
+      const row = (title: () => string) => ({
+        $eval: jest.fn().mockImplementation((selector: string) => {
+          if (selector === ".date") return Promise.resolve("Jul 4, 2024");
+          if (selector === ".ticket") {
+            return Promise.resolve(`https://tickets.test/${title()}`);
+          }
+          return Promise.resolve(title());
+        }),
+      });
+      const rows = [
+        row(() => (pageNumber === 1 ? "Band 1-1" : "Band 1-2")),
+        row(() => `Band ${pageNumber}-2`),
+      ];
+
+      return {
+        url: () => `https://test.com/?page=${pageNumber}`,
+        $$: jest.fn().mockResolvedValue(rows),
+        $$eval: jest.fn().mockResolvedValue([]),
+        $: jest.fn().mockResolvedValue({
+          isVisible: jest.fn().mockResolvedValue(true),
+          isEnabled: jest.fn().mockResolvedValue(true),
+          getAttribute: jest
+            .fn()
+            .mockImplementation(() =>
+              Promise.resolve(`?page=${pageNumber + 1}`)
+            ),
+        }),
+        goto: jest.fn().mockImplementation(async () => {
+          pageNumber++;
+        }),
+        waitForSelector: jest.fn().mockResolvedValue({}),
+      } as any;
+    }
+
+    test("accumulates unique events across pages up to maxEvents", async () => {
+      const page = pagedSite();
+
+      const result = await scrapeAllPages(page, config, "testSite");
+
+      expect(page.goto).toHaveBeenCalledTimes(1);
+      expect(result.events.map((event) => event.event)).toEqual([
+        "Band 1-1",
+        "Band 1-2",
+        "Band 2-2",
+      ]);
+      expect(result.selectorSource).toBe("default");
+    });
+  });
+
+  describe("scrapeSite", () => {
+    const config: WebsiteConfig = {
+      url: "https://test.com",
+      venue: "Test Venue",
+      eventListSelector: ".row",
+      eventSectionSelector: ".section",
+      defaultSelectors: {
+        venue: ".venue",
+        price: ".price",
+        event: ".event",
+        date: ".date",
+        ticketLink: ".ticket",
+      },
+    };
+
+    test("times out slow sites and closes their context", async () => {
+      const context = {
+        newPage: jest.fn().mockResolvedValue({
+          goto: jest.fn().mockReturnValue(new Promise(() => {})),
+        }),
+        close: jest.fn(),
+      };
+      const pool = {
+        newContext: jest.fn().mockResolvedValue(context),
+        close: jest.fn(),
+      };
+
+      const scraping = scrapeSite({ ...config, timeoutMs: 10 }, "testSite", {
+        pool: pool as any,
+        retries: 0,
+      });
+
+      await expect(scraping).rejects.toBeInstanceOf(SiteTimeoutError);
+      await expect(scraping).rejects.toThrow(
+        "Scraping testSite timed out after 10ms"
+      );
+      expect(context.close).toHaveBeenCalled();
+      expect(pool.close).not.toHaveBeenCalled();
+    });
+
+    test("retries failed navigation and counts the attempts", async () => {
+      const context = {
+        newPage: jest.fn().mockResolvedValue({
+          goto: jest.fn().mockRejectedValue(new Error("net::ERR_FAILED")),
+        }),
+        close: jest.fn(),
+      };
+      const pool = {
+        newContext: jest.fn().mockResolvedValue(context),
+        close: jest.fn(),
+      };
+
+      const error = await scrapeSite(config, "testSite", {
+        pool: pool as any,
+        retries: 2,
+        retryBaseDelayMs: 1,
+      }).catch((error) => error);
+
+      expect(error).toBeInstanceOf(NavigationError);
+      expect(error.attempts).toBe(3);
+      expect(pool.newContext).toHaveBeenCalledTimes(3);
+      expect(context.close).toHaveBeenCalledTimes(3);
+    });
+  });
+
   describe("scrapeWebsite", () => {
     const mockConfig: WebsiteConfig = {
       url: "https://test.com",
@@ -229,12 +554,52 @@ describe("Scraping Functions", () => {
   });
 });
 
+describe("formatRunSummary", () => {
+  test("lists sites slowest first", () => {
+    const lines = formatRunSummary(
+      [
+        {
+          site: "eccles",
+          events: [],
+          selectors: {} as WebsiteConfig["defaultSelectors"],
+          selectorSource: "default",
+          selectorScore: 0,
+          elapsedMs: 1200,
+        },
+      ],
+      [
+        {
+          site: "stateroom",
+          error: new ScrapeError("unknown", "boom"),
+          elapsedMs: 30000,
+        },
+      ],
+      31000
+    );
+
+    expect(lines).toEqual([
+      "Scraped 2 site(s) in 31.0s",
+      "  stateroom   30.0s  failed",
+      "  eccles       1.2s  0 events",
+    ]);
+  });
+});
+
 describe("Data Saving", () => {
   describe("saveToJson", () => {
     beforeEach(() => {
       jest.clearAllMocks();
     });
-    test("saves cleaned data to file", () => {
+    test("saves valid events and reports the rest", () => {
+      const validEvent: Event = {
+        website: "snspresents",
+        venue: "Test Venue",
+        price: "$20",
+        event: "Test Band",
+        date: "Thu, Jul 4, 2024",
+        startDate: "2024-07-04",
+        ticketLink: "https://tickets.test.com/test-band",
+      };
       const mockEvents: Event[] = [
         {
           website: "commonwealth",
@@ -244,22 +609,7 @@ describe("Data Saving", () => {
           date: "Thu, Jul 4, 2024",
           ticketLink: "mockValue",
         },
-        {
-          website: "eccles",
-          venue: "mockValue",
-          price: "mockValue",
-          event: "MOCKVALUE mockValue mockValue",
-          date: "Thu, Jul 4, 2024",
-          ticketLink: "mockValue",
-        },
-        {
-          website: "snspresents",
-          venue: "Test Venue",
-          price: "mockValue",
-          event: "mockValue",
-          date: "Thu, Jul 4, 2024",
-          ticketLink: "mockValue",
-        },
+        validEvent,
       ];
       mainModule.saveToJson(mockEvents, "test.json");
 
@@ -267,13 +617,14 @@ describe("Data Saving", () => {
         (fs.writeFileSync as jest.Mock).mock.calls[0][1]
       );
 
-      // Filter out unnecessary data in savedData
-      const filteredSavedData = savedData.filter((event: Event) =>
-        ["commonwealth", "eccles", "snspresents"].includes(event.website)
+      expect(savedData).toEqual([validEvent]);
+      expect(fs.renameSync).toHaveBeenCalledWith(
+        `test.json.${process.pid}.tmp`,
+        "test.json"
+      );
+      expect(console.warn).toHaveBeenCalledWith(
+        expect.stringContaining("ticketLink is not a valid URL")
       );
-
-      expect(filteredSavedData).toHaveLength(mockEvents.length);
-      expect(filteredSavedData).toEqual(mockEvents);
     });
   });
 });
@@ -326,7 +677,7 @@ describe("Main Execution", () => {
         },
       },
     };
-    mainModule.setWebsiteConfigsForTesting(testConfigs);
+    mainModule.setWebsiteConfigs(testConfigs);
 
     // Mock the implementation of main
     (mainModule.main as jest.Mock).mockImplementation(async () => {
@@ -347,7 +698,7 @@ describe("Main Execution", () => {
   });
 
   afterEach(() => {
-    mainModule.setWebsiteConfigsForTesting(originalWebsiteConfigs);
+    mainModule.setWebsiteConfigs(originalWebsiteConfigs);
   });
 
   test("scrapes all websites and saves data", async () => {
@@ -1,397 +1,1088 @@
-import { createOpenAI } from "@ai-sdk/openai";
-import { generateObject } from "ai";
 import fs from "fs";
 import path from "path";
-import { chromium, Page } from "playwright";
-import { z } from "zod";
-
-const openai = createOpenAI({
-  baseURL: "http://localhost:11434/v1",
-  apiKey: "",
-});
-
-const EventSchema = z.object({
-  website: z.string(),
-  venue: z.string(),
-  price: z.string(),
-  event: z.string(),
-  date: z.string(),
-  ticketLink: z.string(),
-});
-
-export type Event = z.infer<typeof EventSchema>;
-
-const WebsiteConfigSchema = z.object({
-  url: z.string().url(),
-  venue: z.string(),
-  upcomingEventsSelector: z.string().optional(),
-  eventListSelector: z.string(),
-  eventSectionSelector: z.string(),
-  defaultSelectors: z.object({
-    venue: z.string(),
-    price: z.string(),
-    event: z.string(),
-    date: z.string(),
-    ticketLink: z.string(),
-    subtitle: z.string().optional(),
-    pretitle: z.string().optional(),
-  }),
-});
-
-export type WebsiteConfig = z.infer<typeof WebsiteConfigSchema>;
-
-export let websiteConfigs: Record<string, WebsiteConfig> = {
-  stateroompresents: {
-    url: "https://thestateroompresents.com/stateroompresents",
-    venue: "The State Room Presents",
-    eventListSelector: ".d-flex.align-items-center.row",
-    eventSectionSelector: ".mod-dpcalendar-upcoming-custom__events",
-    defaultSelectors: {
-      venue: ".up-pretitle",
-      price: ".up-link a",
-      event: ".up-title a",
-      date: ".up-date",
-      ticketLink: ".up-link a",
-      subtitle: ".up-subtitle",
-      pretitle: ".up-pretitle",
-    },
-  },
-  deervalley: {
-    url: "https://thestateroompresents.com/deer-valley",
-    venue: "Deer Valley Concert Series",
-    eventListSelector: ".d-flex.align-items-center.row",
-    eventSectionSelector: ".mod-dpcalendar-upcoming-custom__events",
-    defaultSelectors: {
-      venue: ".up-pretitle",
-      price: ".up-link a",
-      event: ".up-title a",
-      date: ".up-date",
-      ticketLink: ".up-link a",
-      subtitle: ".up-subtitle",
-      pretitle: ".up-pretitle",
-    },
-  },
-  stateroom: {
-    url: "https://thestateroompresents.com/the-state-room",
-    venue: "The State Room",
-    eventListSelector: ".d-flex.align-items-center.row",
-    eventSectionSelector: ".mod-dpcalendar-upcoming-custom__events",
-    defaultSelectors: {
-      venue: ".up-pretitle",
-      price: ".up-link a",
-      event: ".up-title a",
-      date: ".up-date",
-      ticketLink: ".up-link a",
-      subtitle: ".up-subtitle",
-      pretitle: ".up-pretitle",
-    },
-  },
-  commonwealth: {
-    url: "https://thestateroompresents.com/the-commonwealth-room",
-    venue: "Commonwealth Room",
-    eventListSelector: ".d-flex.align-items-center.row",
-    eventSectionSelector: ".mod-dpcalendar-upcoming-custom__events",
-    defaultSelectors: {
-      venue: ".up-pretitle",
-      price: ".up-link a",
-      event: ".up-title a",
-      date: ".up-date",
-      ticketLink: ".up-link a",
-      subtitle: ".up-subtitle",
-      pretitle: ".up-pretitle",
-    },
-  },
-  eccles: {
-    url: "https://thestateroompresents.com/eccles-theater",
-    venue: "Eccles Theater",
-    eventListSelector: ".d-flex.align-items-center.row",
-    eventSectionSelector: ".mod-dpcalendar-upcoming-custom__events",
-    defaultSelectors: {
-      venue: ".up-pretitle",
-      price: ".up-link a",
-      event: ".up-title a",
-      date: ".up-date",
-      ticketLink: ".up-link a",
-      subtitle: ".up-subtitle",
-      pretitle: ".up-pretitle",
-    },
-  },
-  snspresents: {
-    url: "https://snspresents.com/",
-    venue: "SNS Presents",
-    upcomingEventsSelector: "text=upcoming events",
-    eventListSelector: "div.tix__widget",
-    eventSectionSelector: "div.sqs-block-content",
-    defaultSelectors: {
-      venue: ".tix__venue",
-      price: ".tix__widget--footer",
-      event: ".tix__title--headliner",
-      date: ".tix__date",
-      ticketLink: ".tix__widget--footer a",
-    },
-  },
-};
+import { BrowserContext, Page } from "playwright";
+import { BrowserPool, createBrowserPool } from "./browserPool";
+import {
+  mapWithConcurrency,
+  retryWithBackoff,
+  withTimeout,
+} from "./concurrency";
+import {
+  ConfigError,
+  formatConfigError,
+  registerWebsiteConfigDir,
+  WebsiteConfig,
+  websiteConfigs,
+} from "./config";
+import { parseEventDate } from "./dates";
+import { dedupeEvents } from "./dedupe";
+import { enrichEvents } from "./details";
+import {
+  EmptyResultError,
+  LlmError,
+  NavigationError,
+  ScrapeError,
+  SelectorTimeoutError,
+  toScrapeError,
+  ValidationError,
+} from "./errors";
+import { Event } from "./event";
+import {
+  ElementSource,
+  extractListingEvents,
+  findMissingSelectors,
+  htmlSource,
+  pageSource,
+  PageSource,
+} from "./extraction";
+import { writeFileAtomic } from "./files";
+import { FixtureOptions, recordFixture, replayFixtures } from "./fixtures";
+import { fetchHtml } from "./httpFetcher";
+import { extractEventsWithLLM } from "./llmExtract";
+import {
+  createPaginationState,
+  dedupeSiteEvents,
+  expandPage,
+  goToNextPage,
+  PaginationState,
+} from "./pagination";
+import {
+  appendRunHistory,
+  buildRunReport,
+  captureFailure,
+  DEFAULT_ARTIFACTS_DIR,
+  RunReport,
+  saveRunReport,
+} from "./report";
+import { acquireLock } from "./scheduler";
+import {
+  getCachedSelectors,
+  hashDomStructure,
+  loadSelectorCache,
+  recordAcceptedSelectors,
+  saveSelectorCache,
+  SelectorCache,
+} from "./selectorCache";
+import { getSelectorsFromLLM, scoreEvents } from "./selectors";
+import {
+  createSinkContext,
+  getSink,
+  jsonSink,
+  Sink,
+  SinkContext,
+} from "./sinks";
+import {
+  currentEvents,
+  EventStore,
+  formatRunDiff,
+  loadStore,
+  recordRun,
+  RunDiff,
+  saveStore,
+} from "./store";
+import {
+  extractStructuredEvents,
+  isCompleteEvent,
+  mergeStructuredEvents,
+} from "./structuredData";
+import { loadTagOverrides, tagEvents } from "./tags";
+import {
+  DEFAULT_MAX_REJECTION_RATE,
+  formatValidation,
+  QuarantinedEvent,
+  rejectionRate,
+  saveQuarantine,
+  validateEvents,
+} from "./validation";
+import {
+  createVenueIndex,
+  loadVenueRegistry,
+  resolveEventVenues,
+} from "./venues";
 
-export async function getSelectorsFromLLM(
-  html: string,
-  defaultSelectors: WebsiteConfig["defaultSelectors"]
-): Promise<WebsiteConfig["defaultSelectors"]> {
-  const prompt = `Given the HTML snippet, provide CSS selectors for venue, price, event, date, ticketLink, subtitle, and pretitle elements for each event listed:\n\n${html}`;
+export { EventSchema, removeSearchParams } from "./event";
+export type { Event, RawEventFields } from "./event";
 
-  try {
-    const { object } = await generateObject({
-      model: openai("llama3:latest"),
-      schema: z.object({
-        selectors: z.object({
-          venue: z.string(),
-          price: z.string(),
-          event: z.string(),
-          date: z.string(),
-          ticketLink: z.string(),
-          subtitle: z.string().optional(),
-          pretitle: z.string().optional(),
-        }),
-      }),
-      prompt,
-    });
+export {
+  registerWebsiteConfig,
+  registerWebsiteConfigDir,
+  registerWebsiteConfigs,
+  setWebsiteConfigs,
+  websiteConfigs,
+} from "./config";
+export type { WebsiteConfig } from "./config";
 
-    return object.selectors;
-  } catch {
-    return defaultSelectors;
-  }
-}
+export {
+  getSelectorsFromLLM,
+  scoreEvents,
+  selectorExamples,
+} from "./selectors";
 
-export function formatDate(dateString: string): string {
+export function formatDate(dateString: string, now: Date = new Date()): string {
   if (!dateString.trim() || dateString === "mockValue") {
-    // console.warn(`Invalid date string received: ${dateString}`);
     return dateString;
   }
-  if (!dateString.trim()) {
-    console.warn("Empty date string received");
+
+  const parsed = parseEventDate(dateString, { now });
+  if (!parsed) {
+    console.warn(`Unrecognized date format: ${dateString}`);
     return dateString;
   }
+  return parsed.display;
+}
 
-  const months = [
-    "Jan",
-    "Feb",
-    "Mar",
-    "Apr",
-    "May",
-    "Jun",
-    "Jul",
-    "Aug",
-    "Sep",
-    "Oct",
-    "Nov",
-    "Dec",
-  ];
-  const days = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
-
-  // Helper function to parse a single date
-  function parseSingleDate(date: string): string {
-    const parts = date.split(/[,\s]+/).filter(Boolean);
-    let dayOfWeek, month, day, year;
-
-    // Determine which parts we have
-    if (days.includes(parts[0])) {
-      [dayOfWeek, month, day, year] = parts;
-    } else if (months.includes(parts[0].slice(0, 3))) {
-      [month, day, year] = parts;
-    } else {
-      console.warn(`Unrecognized date format: ${date}`);
-      return date;
-    }
+export function scrapeEvents(
+  page: Page,
+  selectors: WebsiteConfig["defaultSelectors"],
+  eventListSelector: string,
+  websiteKey: string,
+  venue: string
+): Promise<Event[]> {
+  return extractListingEvents(
+    pageSource(page),
+    selectors,
+    eventListSelector,
+    websiteKey,
+    venue
+  );
+}
 
-    // Infer the year if it's missing
-    if (!year) {
-      year = new Date().getFullYear().toString();
-    }
+// Below this fraction of complete rows the default selectors are considered
+// broken and the LLM is asked for replacements
+export const DEFAULT_SELECTOR_SCORE_THRESHOLD = 0.8;
+
+// "extraction" means the model returned the events themselves, and
+// "structured" that they came from the page's schema.org data
+export type SelectorSource =
+  | "default"
+  | "cache"
+  | "llm"
+  | "extraction"
+  | "structured";
 
-    // Remove any non-digit characters from day and year
-    day = day?.replace(/\D/g, "");
-    year = year?.replace(/\D/g, "");
+export interface SiteScrapeResult {
+  site: string;
+  events: Event[];
+  selectors: WebsiteConfig["defaultSelectors"];
+  selectorSource: SelectorSource;
+  selectorScore: number;
+  // Wall-clock time for the whole site, set by scrapeSite
+  elapsedMs?: number;
+  attempts?: number;
+  // Events quarantined by validation, set by main
+  rejected?: number;
+  // Venue names missing from the venue registry, set by main
+  unresolvedVenues?: string[];
+}
+
+// Returns the selector keys that match nothing inside the event rows
+export function validateSelectors(
+  page: Page,
+  selectors: WebsiteConfig["defaultSelectors"],
+  eventListSelector: string
+): Promise<string[]> {
+  return findMissingSelectors(pageSource(page), selectors, eventListSelector);
+}
+
+export interface ScrapeOptions {
+  // Reuses previously accepted LLM selectors for unchanged page layouts
+  selectorCache?: SelectorCache;
+  // Lets detail-page enrichment skip events enriched in earlier runs
+  store?: EventStore;
+  // Shared across sites; scrapeSite launches its own browser without one
+  pool?: BrowserPool;
+  // Overridden by the site's own timeoutMs and retries
+  timeoutMs?: number;
+  retries?: number;
+  retryBaseDelayMs?: number;
+  // Where to save a screenshot and HTML of pages that fail; none if unset
+  artifactsDir?: string;
+  // Record every scraped page under a fixtures directory, or serve pages
+  // from one instead of the network
+  fixtures?: FixtureOptions;
+}
 
-    const monthIndex = months.findIndex(
-      (m) => m.toLowerCase() === month.toLowerCase().slice(0, 3)
+// Scrapes with candidate selectors, returning nothing unless they match the
+// live DOM and beat the score of the selectors already in hand
+async function tryCandidateSelectors(
+  source: ElementSource,
+  config: WebsiteConfig,
+  websiteKey: string,
+  selectors: WebsiteConfig["defaultSelectors"],
+  selectorSource: SelectorSource,
+  baselineScore: number
+): Promise<SiteScrapeResult | undefined> {
+  const invalid = await findMissingSelectors(
+    source,
+    selectors,
+    config.eventListSelector
+  );
+  if (invalid.length > 0) {
+    console.warn(
+      `${selectorSource} selectors for ${websiteKey} match nothing for: ${invalid.join(
+        ", "
+      )}`
     );
-    if (monthIndex === -1) {
-      console.warn(`Invalid month in date: ${date}`);
-      return date;
-    }
+    return undefined;
+  }
+
+  const events = await extractListingEvents(
+    source,
+    selectors,
+    config.eventListSelector,
+    websiteKey,
+    config.venue
+  );
+  const selectorScore = scoreEvents(events);
+  if (selectorScore <= baselineScore) return undefined;
+
+  return { site: websiteKey, events, selectors, selectorSource, selectorScore };
+}
+
+export function scrapeWithSelectorFallback(
+  page: Page,
+  config: WebsiteConfig,
+  websiteKey: string,
+  options: ScrapeOptions = {}
+): Promise<SiteScrapeResult> {
+  return extractWithSelectorFallback(
+    pageSource(page),
+    config,
+    websiteKey,
+    options
+  );
+}
+
+// Tries the default selectors, then cached and LLM-suggested ones when the
+// defaults score below the site's threshold
+export async function extractWithSelectorFallback(
+  source: ElementSource,
+  config: WebsiteConfig,
+  websiteKey: string,
+  options: ScrapeOptions = {}
+): Promise<SiteScrapeResult> {
+  const threshold =
+    config.selectorScoreThreshold ?? DEFAULT_SELECTOR_SCORE_THRESHOLD;
+
+  const defaultEvents = await extractListingEvents(
+    source,
+    config.defaultSelectors,
+    config.eventListSelector,
+    websiteKey,
+    config.venue
+  );
+  const defaultResult: SiteScrapeResult = {
+    site: websiteKey,
+    events: defaultEvents,
+    selectors: config.defaultSelectors,
+    selectorSource: "default",
+    selectorScore: scoreEvents(defaultEvents),
+  };
+  if (defaultResult.selectorScore >= threshold) return defaultResult;
+
+  console.warn(
+    `Default selectors for ${websiteKey} scored ${defaultResult.selectorScore.toFixed(
+      2
+    )}, looking for replacements`
+  );
 
-    // Create a new Date object
-    const dateObj = new Date(parseInt(year), monthIndex, parseInt(day));
+  const eventsSectionHTML = await source.innerHTML(config.eventSectionSelector);
+  const structureHash = hashDomStructure(eventsSectionHTML);
+  const { selectorCache } = options;
 
-    // Format the date
-    return `${days[dateObj.getDay()]}, ${
-      months[monthIndex]
-    } ${dateObj.getDate()}, ${dateObj.getFullYear()}`;
+  const cachedSelectors =
+    selectorCache &&
+    getCachedSelectors(selectorCache, websiteKey, structureHash);
+  if (cachedSelectors) {
+    const cachedResult = await tryCandidateSelectors(
+      source,
+      config,
+      websiteKey,
+      cachedSelectors,
+      "cache",
+      defaultResult.selectorScore
+    );
+    if (cachedResult) return cachedResult;
   }
 
-  // Handle single date and date range formats
-  const dateParts = dateString
-    .split("-")
-    .map((d) => d.trim())
-    .map(parseSingleDate);
-
-  // If it's a date range, ensure both dates are formatted
-  if (dateParts.length === 2) {
-    return dateParts.join(" - ");
-  } else {
-    return dateParts[0]; // Single date
+  const selectors = await getSelectorsFromLLM(
+    eventsSectionHTML,
+    config.defaultSelectors,
+    config.llm
+  );
+  if (selectors === config.defaultSelectors) return defaultResult;
+
+  const llmResult = await tryCandidateSelectors(
+    source,
+    config,
+    websiteKey,
+    selectors,
+    "llm",
+    defaultResult.selectorScore
+  );
+  if (!llmResult) return defaultResult;
+
+  if (selectorCache) {
+    recordAcceptedSelectors(
+      selectorCache,
+      websiteKey,
+      structureHash,
+      selectors,
+      llmResult.selectorScore
+    );
   }
+  return llmResult;
 }
 
-export function removeSearchParams(url: string): string {
-  try {
-    const urlObject = new URL(url);
-    urlObject.search = "";
-    return urlObject.toString();
-  } catch {
-    return url;
-  }
+async function extractWithLLM(
+  source: PageSource,
+  config: WebsiteConfig,
+  websiteKey: string
+): Promise<SiteScrapeResult> {
+  const events = await extractEventsWithLLM(source, config, websiteKey);
+  return {
+    site: websiteKey,
+    events,
+    selectors: config.defaultSelectors,
+    selectorSource: "extraction",
+    selectorScore: scoreEvents(events),
+  };
 }
-export async function scrapeEvents(
+
+export function scrapeWithStrategy(
   page: Page,
-  selectors: WebsiteConfig["defaultSelectors"],
-  eventListSelector: string,
+  config: WebsiteConfig,
   websiteKey: string,
-  venue: string
-): Promise<Event[]> {
-  const eventElements = await page.$$(eventListSelector);
-
-  return Promise.all(
-    eventElements.map(async (element) => {
-      const eventData: Partial<Event> = { website: websiteKey };
-
-      let presenter = "";
-      let mainArtist = "";
-      let supportingActs = "";
-
-      for (const [key, selector] of Object.entries(selectors)) {
-        if (!selector) continue;
-        const text = await element
-          .$eval(selector, (el) => el.textContent?.trim() || "")
-          .catch(() => "");
-
-        if (key === "price") {
-          eventData[key] = text.toLowerCase().includes("sold out")
-            ? "SOLD OUT"
-            : text.match(/\$\d+(\.\d{2})?/)?.[0] || text.trim();
-        } else if (key === "ticketLink") {
-          eventData[key] = removeSearchParams(
-            await element
-              .$eval(selector, (el) => (el as HTMLAnchorElement).href)
-              .catch(() => "")
-          );
-        } else if (key === "date") {
-          eventData[key] = formatDate(text);
-        } else if (key === "event") {
-          mainArtist = text;
-        } else if (key === "venue" && !text) {
-          eventData[key as keyof Event] = venue;
-        } else if (key === "pretitle") {
-          presenter = text;
-        } else if (key === "subtitle") {
-          supportingActs = text;
-        } else if (key !== "subtitle" && key !== "pretitle") {
-          eventData[key as keyof Event] = text;
-        }
-      }
+  options: ScrapeOptions = {}
+): Promise<SiteScrapeResult> {
+  return extractWithStrategy(pageSource(page), config, websiteKey, options);
+}
 
-      // Construct the event title
-      let eventTitle = [];
-      if (presenter) eventTitle.push(presenter.toUpperCase());
-      if (mainArtist) eventTitle.push(mainArtist);
-      if (supportingActs) eventTitle.push(supportingActs);
+// Reads the page's structured data first, running the site's strategy only
+// when some events lack fields, whichever fetcher loaded the page
+export async function extractWithStrategy(
+  source: PageSource,
+  config: WebsiteConfig,
+  websiteKey: string,
+  options: ScrapeOptions = {}
+): Promise<SiteScrapeResult> {
+  const structured =
+    config.structuredData === false
+      ? []
+      : await extractStructuredEvents(source, websiteKey, config.venue);
+  if (structured.length > 0 && structured.every(isCompleteEvent)) {
+    return {
+      site: websiteKey,
+      events: structured,
+      selectors: config.defaultSelectors,
+      selectorSource: "structured",
+      selectorScore: scoreEvents(structured),
+    };
+  }
 
-      eventData["event"] = eventTitle.join(" ");
+  const listingResult = await extractWithConfiguredStrategy(
+    source,
+    config,
+    websiteKey,
+    options
+  );
+  if (structured.length === 0) return listingResult;
 
-      return eventData as Event;
-    })
+  const events = mergeStructuredEvents(
+    structured,
+    listingResult.events,
+    config.venue
   );
+  return {
+    ...listingResult,
+    events,
+    selectorSource: "structured",
+    selectorScore: scoreEvents(events),
+  };
 }
 
-export async function scrapeWebsite(
+async function extractWithConfiguredStrategy(
+  source: PageSource,
+  config: WebsiteConfig,
+  websiteKey: string,
+  options: ScrapeOptions
+): Promise<SiteScrapeResult> {
+  const strategy = config.strategy ?? "selectors";
+  if (strategy === "llm") return extractWithLLM(source, config, websiteKey);
+
+  const selectorResult = await extractWithSelectorFallback(
+    source,
+    config,
+    websiteKey,
+    options
+  );
+  const threshold =
+    config.selectorScoreThreshold ?? DEFAULT_SELECTOR_SCORE_THRESHOLD;
+  if (strategy === "selectors" || selectorResult.selectorScore >= threshold) {
+    return selectorResult;
+  }
+
+  let extractionResult: SiteScrapeResult;
+  try {
+    extractionResult = await extractWithLLM(source, config, websiteKey);
+  } catch (error) {
+    if (!(error instanceof LlmError)) throw error;
+    console.warn(`${error.message}; keeping the selector results`);
+    return selectorResult;
+  }
+  return extractionResult.selectorScore > selectorResult.selectorScore
+    ? extractionResult
+    : selectorResult;
+}
+
+// Scrapes every page the site's pagination settings reach, merging the
+// per-page results
+export async function scrapeAllPages(
+  page: Page,
   config: WebsiteConfig,
+  websiteKey: string,
+  options: ScrapeOptions = {}
+): Promise<SiteScrapeResult> {
+  const state = createPaginationState(config, page.url());
+  const results: SiteScrapeResult[] = [];
+  let events: Event[] = [];
+
+  do {
+    await expandPage(page, config, state);
+    if (options.fixtures?.mode === "record") {
+      await recordFixture(page, websiteKey, options.fixtures.dir);
+    }
+    const result = await scrapeWithStrategy(page, config, websiteKey, options);
+    results.push(result);
+    events = dedupeSiteEvents(events.concat(result.events));
+  } while (
+    events.length < state.maxEvents &&
+    (await goToNextPage(page, config, state))
+  );
+
+  return mergePageResults(results, events, state, websiteKey);
+}
+
+function mergePageResults(
+  results: SiteScrapeResult[],
+  events: Event[],
+  state: PaginationState,
   websiteKey: string
-): Promise<Event[]> {
-  console.log(`Scraping ${config.url}`);
+): SiteScrapeResult {
+  if (state.pagesLoaded > 1) {
+    console.log(`${websiteKey}: scraped ${state.pagesLoaded} pages`);
+  }
+
+  events = events.slice(0, state.maxEvents);
+  return {
+    ...results[0],
+    events,
+    selectorScore: scoreEvents(events),
+  };
+}
+
+// Covers loading every page plus detail-page enrichment, per attempt
+export const DEFAULT_SITE_TIMEOUT_MS = 5 * 60 * 1000;
 
-  const browser = await chromium.launch({ headless: true });
-  const page = await browser.newPage();
+export const DEFAULT_RETRIES = 2;
+export const DEFAULT_RETRY_BASE_DELAY_MS = 2000;
 
+async function waitForVisible(page: Page, selector: string, url: string) {
+  try {
+    await page.waitForSelector(selector, { state: "visible", timeout: 10000 });
+  } catch (error) {
+    throw new SelectorTimeoutError(
+      selector,
+      `${selector} did not appear on ${url}`,
+      error
+    );
+  }
+}
+
+async function scrapeInContext(
+  context: BrowserContext,
+  config: WebsiteConfig,
+  websiteKey: string,
+  options: ScrapeOptions
+): Promise<SiteScrapeResult> {
+  const page = await context.newPage();
   try {
     await page.goto(config.url);
+  } catch (error) {
+    throw new NavigationError(`Could not load ${config.url}`, error);
+  }
 
-    if (config.upcomingEventsSelector) {
-      await page.waitForSelector(config.upcomingEventsSelector, {
-        state: "visible",
-        timeout: 10000,
-      });
-    }
+  if (config.upcomingEventsSelector) {
+    await waitForVisible(page, config.upcomingEventsSelector, config.url);
+  }
+  await waitForVisible(page, config.eventListSelector, config.url);
 
-    await page.waitForSelector(config.eventListSelector, {
-      state: "visible",
-      timeout: 10000,
-    });
+  const result = await scrapeAllPages(page, config, websiteKey, options);
+  if (result.events.length === 0) {
+    throw new EmptyResultError(`No events found on ${config.url}`);
+  }
+
+  const { fixtures } = options;
+  result.events = await enrichEvents(result.events, config, websiteKey, {
+    newPage: () => context.newPage(),
+    store: options.store,
+    onPageLoaded:
+      fixtures?.mode === "record"
+        ? (detailPage) => recordFixture(detailPage, websiteKey, fixtures.dir)
+        : undefined,
+  });
+  return result;
+}
 
-    const eventsSectionHTML = await page.innerHTML(config.eventSectionSelector);
-    const selectors = await getSelectorsFromLLM(
-      eventsSectionHTML,
-      config.defaultSelectors
+// The HTTP fetcher's counterpart to scrapeInContext. Only next-page links can
+// be followed, since "load more" buttons and scrolling need scripts to run.
+async function scrapeOverHttp(
+  config: WebsiteConfig,
+  websiteKey: string,
+  options: ScrapeOptions
+): Promise<SiteScrapeResult> {
+  const download = (url: string) =>
+    fetchHtml(url, { site: websiteKey, fixtures: options.fixtures });
+  const load = async (url: string) => htmlSource(await download(url), url);
+
+  let source = await load(config.url);
+  for (const selector of [
+    config.upcomingEventsSelector,
+    config.eventListSelector,
+  ]) {
+    if (selector && (await source.count(selector)) === 0) {
+      throw new SelectorTimeoutError(
+        selector,
+        `${selector} is not in the HTML of ${config.url}; the page may need fetcher "browser"`
+      );
+    }
+  }
+
+  const { pagination } = config;
+  if (pagination?.loadMoreSelector || pagination?.scroll) {
+    console.warn(
+      `${websiteKey}: load-more buttons and scrolling need fetcher "browser"; only the first batch is scraped`
     );
+  }
 
-    return await scrapeEvents(
-      page,
-      selectors,
-      config.eventListSelector,
+  const state = createPaginationState(config, config.url);
+  const results: SiteScrapeResult[] = [];
+  let events: Event[] = [];
+
+  while (true) {
+    const result = await extractWithStrategy(
+      source,
+      config,
       websiteKey,
-      config.venue
+      options
     );
+    results.push(result);
+    events = dedupeSiteEvents(events.concat(result.events));
+    if (events.length >= state.maxEvents) break;
+    if (!pagination?.nextPageSelector || state.pagesLoaded >= state.maxPages) {
+      break;
+    }
+
+    const next = await source.href(pagination.nextPageSelector);
+    if (!next || /^(#|javascript:)/i.test(next) || state.visited.has(next)) {
+      break;
+    }
+    source = await load(next);
+    if ((await source.count(config.eventListSelector)) === 0) break;
+    state.visited.add(next);
+    state.pagesLoaded++;
+  }
+
+  const result = mergePageResults(results, events, state, websiteKey);
+  if (result.events.length === 0) {
+    throw new EmptyResultError(`No events found on ${config.url}`);
+  }
+
+  result.events = await enrichEvents(result.events, config, websiteKey, {
+    fetchHtml: download,
+    store: options.store,
+  });
+  return result;
+}
+
+export async function scrapeSite(
+  config: WebsiteConfig,
+  websiteKey: string,
+  options: ScrapeOptions = {}
+): Promise<SiteScrapeResult> {
+  console.log(`Scraping ${config.url}`);
+
+  const started = Date.now();
+  const pool = options.pool ?? createBrowserPool();
+  const timeoutMs =
+    config.timeoutMs ?? options.timeoutMs ?? DEFAULT_SITE_TIMEOUT_MS;
+  const retries = config.retries ?? options.retries ?? DEFAULT_RETRIES;
+  let attempts = 0;
+
+  const attempt = async (attempt: number) => {
+    attempts = attempt;
+    if (config.fetcher === "http") {
+      try {
+        return await withTimeout(
+          scrapeOverHttp(config, websiteKey, options),
+          timeoutMs,
+          `Scraping ${websiteKey} timed out after ${timeoutMs}ms`
+        );
+      } catch (error) {
+        throw toScrapeError(error);
+      }
+    }
+
+    const context = await pool.newContext();
+    try {
+      if (options.fixtures?.mode === "replay") {
+        await replayFixtures(context, websiteKey, options.fixtures.dir);
+      }
+      return await withTimeout(
+        scrapeInContext(context, config, websiteKey, options),
+        timeoutMs,
+        `Scraping ${websiteKey} timed out after ${timeoutMs}ms`
+      );
+    } catch (error) {
+      const scrapeError = toScrapeError(error);
+      const lastAttempt = attempt > retries || !scrapeError.retryable;
+      if (lastAttempt && options.artifactsDir) {
+        scrapeError.artifacts = await captureFailure(
+          context,
+          websiteKey,
+          options.artifactsDir
+        );
+      }
+      throw scrapeError;
+    } finally {
+      await context.close();
+    }
+  };
+
+  try {
+    const result = await retryWithBackoff(attempt, {
+      retries,
+      baseDelayMs: options.retryBaseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS,
+      shouldRetry: (error) => (error as ScrapeError).retryable,
+      onRetry: (error, attempt, delayMs) =>
+        console.warn(
+          `${websiteKey}: attempt ${attempt} failed (${
+            (error as Error).message
+          }), retrying in ${delayMs}ms`
+        ),
+    });
+    return { ...result, attempts, elapsedMs: Date.now() - started };
+  } catch (error) {
+    const scrapeError = toScrapeError(error);
+    scrapeError.attempts = attempts;
+    throw scrapeError;
   } finally {
-    await browser.close();
+    if (!options.pool) await pool.close();
   }
 }
 
-export function saveToJson(data: Event[], filename: string) {
-  const cleanedData = data.filter(
-    (event) =>
-      event.website &&
-      event.venue &&
-      event.price &&
-      event.event &&
-      event.date &&
-      event.ticketLink
-  );
+export async function scrapeWebsite(
+  config: WebsiteConfig,
+  websiteKey: string,
+  options: ScrapeOptions = {}
+): Promise<Event[]> {
+  return (await scrapeSite(config, websiteKey, options)).events;
+}
+
+export interface RunOptions {
+  sites?: string[];
+  out?: string;
+  // Output sink formats, e.g. ["json", "ics"]; defaults to JSON
+  formats?: string[];
+  dryRun?: boolean;
+  configDir?: string;
+  storeFile?: string;
+  selectorCacheFile?: string;
+  // Sites scraped at once
+  concurrency?: number;
+  siteTimeoutMs?: number;
+  retries?: number;
+  retryBaseDelayMs?: number;
+  // Written after every run except dry runs, unless given explicitly
+  reportFile?: string;
+  artifactsDir?: string;
+  fixtures?: FixtureOptions;
+  // Default for sites without their own maxRejectionRate
+  maxRejectionRate?: number;
+  quarantineFile?: string;
+  runHistoryFile?: string;
+  venuesFile?: string;
+  // Held for the whole run; dry runs write nothing and don't take it
+  lockFile?: string;
+  tagOverridesFile?: string;
+  // Has the LLM tag events too, not just the keyword rules
+  llmTags?: boolean;
+  // Sites whose stored events are written out; defaults to the scraped ones
+  outputSites?: string[];
+}
+
+export const DEFAULT_SITE_CONCURRENCY = 3;
+
+export interface SiteFailure {
+  site: string;
+  error: ScrapeError;
+  elapsedMs?: number;
+}
+
+export interface RunResult {
+  events: Event[];
+  sites: SiteScrapeResult[];
+  failures: SiteFailure[];
+  configErrors: ConfigError[];
+  diff: RunDiff;
+  outputFiles: string[];
+  elapsedMs: number;
+  report: RunReport;
+  quarantined: QuarantinedEvent[];
+}
+
+export function saveEvents(
+  sink: Sink,
+  data: Event[],
+  filename: string,
+  context: SinkContext = createSinkContext()
+) {
+  const validation = validateEvents(data);
+  for (const line of formatValidation(validation)) {
+    console.warn(line);
+  }
 
-  const jsonData = JSON.stringify(cleanedData, null, 2);
-  fs.writeFileSync(filename, jsonData);
+  writeFileAtomic(filename, sink.serialize(validation.valid, context));
   console.log(`Data saved to ${filename}`);
   console.log(
-    `Total raw events: ${data.length}, Cleaned events: ${cleanedData.length}`
+    `Total raw events: ${data.length}, Valid events: ${validation.valid.length}`
   );
 }
 
-export async function main() {
+export function saveToJson(data: Event[], filename: string) {
+  saveEvents(jsonSink, data, filename);
+}
+
+// `out` may name a file or a directory; directories get the dated default
+// name and files take the sink's extension
+export function resolveOutputPath(
+  out: string | undefined,
+  extension: string = "json",
+  now: Date = new Date()
+): string {
+  const date = now.toISOString().split("T")[0];
+  const defaultName = `event_data_${date}.${extension}`;
+
+  if (!out) return path.join(__dirname, defaultName);
+
+  const isDirectory =
+    out.endsWith(path.sep) ||
+    out.endsWith("/") ||
+    (fs.existsSync(out) && fs.statSync(out).isDirectory()) ||
+    !path.extname(out);
+
+  if (isDirectory) return path.join(out, defaultName);
+
+  return path.extname(out) === `.${extension}`
+    ? out
+    : path.join(
+        path.dirname(out),
+        `${path.basename(out, path.extname(out))}.${extension}`
+      );
+}
+
+function formatSeconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+function formatPercent(rate: number): string {
+  return `${Math.round(rate * 100)}%`;
+}
+
+export function formatRunSummary(
+  sites: SiteScrapeResult[],
+  failures: SiteFailure[],
+  elapsedMs: number
+): string[] {
+  const rows = [
+    ...sites.map((result) => ({
+      site: result.site,
+      status: `${result.events.length} events`,
+      elapsedMs: result.elapsedMs,
+    })),
+    ...failures.map((failure) => ({
+      site: failure.site,
+      status: "failed",
+      elapsedMs: failure.elapsedMs,
+    })),
+  ].sort((a, b) => (b.elapsedMs ?? 0) - (a.elapsedMs ?? 0));
+
+  const width = Math.max(0, ...rows.map((row) => row.site.length));
+  return [
+    `Scraped ${rows.length} site(s) in ${formatSeconds(elapsedMs)}`,
+    ...rows.map(
+      (row) =>
+        `  ${row.site.padEnd(width)}  ${
+          row.elapsedMs === undefined
+            ? "-"
+            : formatSeconds(row.elapsedMs).padStart(6)
+        }  ${row.status}`
+    ),
+  ];
+}
+
+export function selectWebsiteConfigs(
+  configs: Record<string, WebsiteConfig>,
+  sites?: string[]
+): Record<string, WebsiteConfig> {
+  if (!sites || sites.length === 0) return configs;
+
+  const unknown = sites.filter((site) => !configs[site]);
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown site(s): ${unknown.join(", ")}. Available: ${Object.keys(
+        configs
+      ).join(", ")}`
+    );
+  }
+
+  return Object.fromEntries(sites.map((site) => [site, configs[site]]));
+}
+
+// Throws LockError when another scrape is already running
+export async function main(options: RunOptions = {}): Promise<RunResult> {
+  const release = options.dryRun ? undefined : acquireLock(options.lockFile);
+  try {
+    return await scrapeAll(options);
+  } finally {
+    release?.();
+  }
+}
+
+async function scrapeAll(options: RunOptions): Promise<RunResult> {
+  const configErrors = registerWebsiteConfigDir(options.configDir);
+  for (const error of configErrors) {
+    console.error(`Invalid site config ${formatConfigError(error)}`);
+  }
+
+  const selected = selectWebsiteConfigs(websiteConfigs, options.sites);
+  const sinks = (options.formats ?? ["json"]).map(getSink);
+
+  const started = Date.now();
   let allEvents: Event[] = [];
+  const sites: SiteScrapeResult[] = [];
+  const failures: SiteFailure[] = [];
+  const quarantined: QuarantinedEvent[] = [];
+  const selectorCache = loadSelectorCache(options.selectorCacheFile);
+  const store = loadStore(options.storeFile);
+  const venueIndex = createVenueIndex(loadVenueRegistry(options.venuesFile));
+  const tagOverrides = loadTagOverrides(options.tagOverridesFile);
+  const pool = createBrowserPool();
 
-  for (const [key, config] of Object.entries(websiteConfigs)) {
-    try {
-      const events = await scrapeWebsite(config, key);
-      allEvents = allEvents.concat(events);
-    } catch (error) {
-      console.error(`Error scraping ${key}:`, error);
+  let outcomes: (SiteScrapeResult | SiteFailure)[];
+  try {
+    outcomes = await mapWithConcurrency(
+      Object.entries(selected),
+      options.concurrency ?? DEFAULT_SITE_CONCURRENCY,
+      async ([key, config]): Promise<SiteScrapeResult | SiteFailure> => {
+        const siteStarted = Date.now();
+        try {
+          const result = await scrapeSite(config, key, {
+            selectorCache,
+            store,
+            pool,
+            timeoutMs: options.siteTimeoutMs,
+            retries: options.retries,
+            retryBaseDelayMs: options.retryBaseDelayMs,
+            artifactsDir: options.artifactsDir ?? DEFAULT_ARTIFACTS_DIR,
+            fixtures: options.fixtures,
+          });
+          const method =
+            result.selectorSource === "extraction"
+              ? "LLM extraction"
+              : result.selectorSource === "structured"
+              ? "structured data"
+              : `${result.selectorSource} selectors`;
+          console.log(
+            `${key}: ${
+              result.events.length
+            } events using ${method} (score ${result.selectorScore.toFixed(2)})`
+          );
+          return result;
+        } catch (error) {
+          const scrapeError = toScrapeError(error);
+          console.error(
+            `Error scraping ${key} after ${scrapeError.attempts} attempt(s): ${scrapeError.message}`
+          );
+          return {
+            site: key,
+            error: scrapeError,
+            elapsedMs: Date.now() - siteStarted,
+          };
+        }
+      }
+    );
+  } finally {
+    await pool.close();
+  }
+
+  // Collected in config order so de-duplication doesn't depend on timing
+  for (const outcome of outcomes) {
+    if ("error" in outcome) {
+      failures.push(outcome);
+      continue;
+    }
+
+    const venues = resolveEventVenues(
+      outcome.events,
+      venueIndex,
+      selected[outcome.site]
+    );
+    if (venues.unresolved.length > 0) {
+      console.warn(
+        `${outcome.site}: venues not in the registry: ${venues.unresolved.join(
+          ", "
+        )}`
+      );
+    }
+
+    const validation = validateEvents(venues.events);
+    for (const line of formatValidation(validation)) {
+      console.warn(line);
     }
+    quarantined.push(...validation.quarantined);
+
+    const rate = rejectionRate(validation);
+    const maxRate =
+      selected[outcome.site].maxRejectionRate ??
+      options.maxRejectionRate ??
+      DEFAULT_MAX_REJECTION_RATE;
+    if (rate > maxRate) {
+      const error = new ValidationError(
+        `${validation.quarantined.length} of ${
+          outcome.events.length
+        } events failed validation (${formatPercent(
+          rate
+        )}, limit ${formatPercent(maxRate)})`
+      );
+      error.attempts = outcome.attempts ?? 1;
+      console.error(`Error scraping ${outcome.site}: ${error.message}`);
+      failures.push({
+        site: outcome.site,
+        error,
+        elapsedMs: outcome.elapsedMs,
+      });
+      continue;
+    }
+
+    sites.push({
+      ...outcome,
+      events: validation.valid,
+      rejected: validation.quarantined.length,
+      unresolvedVenues: venues.unresolved,
+    });
+    allEvents = allEvents.concat(validation.valid);
+  }
+  const elapsedMs = Date.now() - started;
+  for (const line of formatRunSummary(sites, failures, elapsedMs)) {
+    console.log(line);
   }
 
-  const date = new Date().toISOString().split("T")[0];
-  const filename = path.join(__dirname, `event_data_${date}.json`);
-  saveToJson(allEvents, filename);
-}
+  const report = buildRunReport(
+    sites,
+    failures,
+    configErrors,
+    new Date(started)
+  );
 
-main().catch(console.error);
+  const scrapedSites = Object.keys(selected).filter(
+    (key) => !failures.some((failure) => failure.site === key)
+  );
+  const dedupedEvents = dedupeEvents(
+    allEvents,
+    {
+      aggregatorSites: Object.keys(websiteConfigs).filter(
+        (key) => websiteConfigs[key].aggregator
+      ),
+      genericVenues: Object.values(websiteConfigs)
+        .filter((config) => config.aggregator)
+        .map((config) => config.venue),
+    },
+    currentEvents(store).filter(
+      (event) => !scrapedSites.includes(event.website)
+    )
+  );
+  const taggedEvents = await tagEvents(dedupedEvents, {
+    classify: options.llmTags,
+    overrides: tagOverrides,
+    store,
+  });
+  const diff = recordRun(store, taggedEvents, { scrapedSites });
+  for (const line of formatRunDiff(diff)) {
+    console.log(line);
+  }
+  report.counts = {
+    events: dedupedEvents.length,
+    added: diff.added.length,
+    removed: diff.removed.length,
+    priceChanged: diff.priceChanged.length,
+    soldOut: diff.soldOut.length,
+  };
+  if (!options.dryRun || options.reportFile) {
+    saveRunReport(report, options.reportFile);
+  }
+  if (!options.dryRun) {
+    appendRunHistory(report, options.runHistoryFile);
+  }
+
+  const currentSiteEvents = currentEvents(
+    store,
+    options.outputSites ?? Object.keys(selected)
+  );
+
+  const context = createSinkContext();
+
+  if (options.dryRun) {
+    for (const sink of sinks) {
+      console.log(sink.serialize(currentSiteEvents, context));
+    }
+    return {
+      events: allEvents,
+      sites,
+      failures,
+      configErrors,
+      diff,
+      outputFiles: [],
+      elapsedMs,
+      report,
+      quarantined,
+    };
+  }
+
+  saveStore(store, options.storeFile);
+  saveSelectorCache(selectorCache, options.selectorCacheFile);
+  saveQuarantine(quarantined, options.quarantineFile);
+
+  const outputFiles = sinks.map((sink) => {
+    const filename = resolveOutputPath(
+      options.out,
+      sink.extension,
+      context.generatedAt
+    );
+    fs.mkdirSync(path.dirname(filename), { recursive: true });
+    saveEvents(sink, currentSiteEvents, filename, context);
+    return filename;
+  });
 
-export function setWebsiteConfigsForTesting(newConfigs: typeof websiteConfigs) {
-  websiteConfigs = newConfigs;
+  return {
+    events: allEvents,
+    sites,
+    failures,
+    configErrors,
+    diff,
+    outputFiles,
+    elapsedMs,
+    report,
+    quarantined,
+  };
 }
@@ -0,0 +1,191 @@
+import type { WebsiteConfig } from "./config";
+import type { Event } from "./event";
+import {
+  createPaginationState,
+  dedupeSiteEvents,
+  expandPage,
+  goToNextPage,
+} from "./pagination";
+
+const baseConfig: WebsiteConfig = {
+  url: "https://test.com/events",
+  venue: "Test Venue",
+  eventListSelector: ".row",
+  eventSectionSelector: ".section",
+  defaultSelectors: {
+    venue: ".venue",
+    price: ".price",
+    event: ".event",
+    date: ".date",
+    ticketLink: ".ticket",
+  },
+};
+
+// A page that starts with 10 rows; "load more" and scrolling each add 10
+// rows until `batches` run out, and ".next" links to `nextHref`
+function fakePage({
+  batches = 0,
+  nextHref = null as string | null,
+}: { batches?: number; nextHref?: string | null } = {}) {
+  let rows = 10;
+  let remaining = batches;
+  let url = "https://test.com/events";
+  const addBatch = () => {
+    if (remaining > 0) {
+      remaining--;
+      rows += 10;
+    }
+  };
+  const element = (onClick: () => void, href: string | null = null) => ({
+    isVisible: jest.fn().mockResolvedValue(true),
+    isEnabled: jest.fn().mockResolvedValue(true),
+    getAttribute: jest.fn().mockResolvedValue(href),
+    click: jest.fn().mockImplementation(async () => onClick()),
+  });
+
+  return {
+    url: () => url,
+    $$: jest.fn().mockImplementation(async () => new Array(rows).fill({})),
+    $: jest.fn().mockImplementation(async (selector: string) => {
+      if (selector === ".more") {
+        return remaining > 0 ? element(addBatch) : null;
+      }
+      if (selector === ".next") return element(() => {}, nextHref);
+      return null;
+    }),
+    evaluate: jest.fn().mockImplementation(async () => addBatch()),
+    waitForFunction: jest
+      .fn()
+      .mockImplementation(async (_fn: unknown, [, previous]: unknown[]) => {
+        if (rows <= (previous as number)) throw new Error("Timeout");
+      }),
+    waitForSelector: jest.fn().mockResolvedValue({}),
+    goto: jest.fn().mockImplementation(async (next: string) => {
+      url = next;
+    }),
+    rowCount: () => rows,
+  } as any;
+}
+
+describe("expandPage", () => {
+  test("clicks load more until the button goes away", async () => {
+    const config = {
+      ...baseConfig,
+      pagination: { loadMoreSelector: ".more", settleMs: 0 },
+    };
+    const page = fakePage({ batches: 2 });
+    const state = createPaginationState(config);
+
+    await expandPage(page, config, state);
+
+    expect(page.rowCount()).toBe(30);
+    expect(state.pagesLoaded).toBe(3);
+  });
+
+  test("scrolls until no new rows appear", async () => {
+    const config = {
+      ...baseConfig,
+      pagination: { scroll: true, settleMs: 0 },
+    };
+    const page = fakePage({ batches: 3 });
+
+    await expandPage(page, config, createPaginationState(config));
+
+    expect(page.rowCount()).toBe(40);
+    expect(page.evaluate).toHaveBeenCalledTimes(4);
+  });
+
+  test("stops at the page and event caps", async () => {
+    const pageCapped = {
+      ...baseConfig,
+      pagination: { loadMoreSelector: ".more", maxPages: 2, settleMs: 0 },
+    };
+    const eventCapped = {
+      ...baseConfig,
+      pagination: { loadMoreSelector: ".more", maxEvents: 15, settleMs: 0 },
+    };
+    const first = fakePage({ batches: 5 });
+    const second = fakePage({ batches: 5 });
+
+    await expandPage(first, pageCapped, createPaginationState(pageCapped));
+    await expandPage(second, eventCapped, createPaginationState(eventCapped));
+
+    expect(first.rowCount()).toBe(20);
+    expect(second.rowCount()).toBe(20);
+  });
+
+  test("does nothing without load more or scroll settings", async () => {
+    const page = fakePage({ batches: 2 });
+
+    await expandPage(page, baseConfig, createPaginationState(baseConfig));
+
+    expect(page.$).not.toHaveBeenCalled();
+  });
+});
+
+describe("goToNextPage", () => {
+  const config = {
+    ...baseConfig,
+    pagination: { nextPageSelector: ".next", settleMs: 0 },
+  };
+
+  test("follows relative next-page links", async () => {
+    const page = fakePage({ nextHref: "?page=2" });
+    const state = createPaginationState(config);
+
+    expect(await goToNextPage(page, config, state)).toBe(true);
+    expect(page.goto).toHaveBeenCalledWith("https://test.com/events?page=2");
+    expect(state.pagesLoaded).toBe(2);
+  });
+
+  test("stops when the next link loops back", async () => {
+    const page = fakePage({ nextHref: "/events" });
+
+    expect(
+      await goToNextPage(page, config, createPaginationState(config))
+    ).toBe(false);
+    expect(page.goto).not.toHaveBeenCalled();
+  });
+
+  test("stops at the page cap", async () => {
+    const capped = {
+      ...config,
+      pagination: { ...config.pagination, maxPages: 1 },
+    };
+
+    expect(
+      await goToNextPage(
+        fakePage({ nextHref: "?page=2" }),
+        capped,
+        createPaginationState(capped)
+      )
+    ).toBe(false);
+  });
+
+  test("stops when the next page has no rows", async () => {
+    const page = fakePage({ nextHref: "?page=2" });
+    page.waitForSelector.mockRejectedValue(new Error("Timeout"));
+
+    expect(
+      await goToNextPage(page, config, createPaginationState(config))
+    ).toBe(false);
+  });
+});
+
+describe("dedupeSiteEvents", () => {
+  test("drops rows scraped twice", () => {
+    const event: Event = {
+      website: "testSite",
+      venue: "Test Venue",
+      price: "$25",
+      event: "Band A",
+      date: "Thu, Jul 4, 2024",
+      startDate: "2024-07-04",
+      ticketLink: "https://tickets.test/a",
+    };
+
+    expect(
+      dedupeSiteEvents([event, { ...event }, { ...event, event: "Band B" }])
+    ).toHaveLength(2);
+  });
+});
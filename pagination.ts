@@ -0,0 +1,161 @@
+import type { ElementHandle, Page } from "playwright";
+import type { WebsiteConfig } from "./config";
+import type { Event } from "./event";
+import { eventId } from "./store";
+
+export const DEFAULT_MAX_PAGES = 10;
+const DEFAULT_SETTLE_MS = 1500;
+
+export interface PaginationState {
+  pagesLoaded: number;
+  maxPages: number;
+  maxEvents: number;
+  settleMs: number;
+  // URLs already scraped, so "next" links that loop back end the run
+  visited: Set<string>;
+}
+
+export function createPaginationState(
+  config: WebsiteConfig,
+  url: string = config.url
+): PaginationState {
+  const { pagination } = config;
+  return {
+    pagesLoaded: 1,
+    maxPages: pagination?.maxPages ?? DEFAULT_MAX_PAGES,
+    maxEvents: pagination?.maxEvents ?? Infinity,
+    settleMs: pagination?.settleMs ?? DEFAULT_SETTLE_MS,
+    visited: new Set([url]),
+  };
+}
+
+async function countRows(page: Page, selector: string): Promise<number> {
+  return (await page.$$(selector)).length;
+}
+
+async function findVisible(
+  page: Page,
+  selector: string
+): Promise<ElementHandle | undefined> {
+  const element = await page.$(selector);
+  if (!element) return undefined;
+  const usable = (await element.isVisible()) && (await element.isEnabled());
+  return usable ? element : undefined;
+}
+
+// Waits up to settleMs for the row count to grow; returns the new count
+async function waitForMoreRows(
+  page: Page,
+  selector: string,
+  previous: number,
+  settleMs: number
+): Promise<number> {
+  await page
+    .waitForFunction(
+      ([rowSelector, count]) =>
+        document.querySelectorAll(rowSelector as string).length >
+        (count as number),
+      [selector, previous],
+      { timeout: settleMs }
+    )
+    .catch(() => {});
+  return countRows(page, selector);
+}
+
+// Clicks "load more" (or scrolls, once the button is gone) until no new rows
+// appear or a cap is reached
+export async function expandPage(
+  page: Page,
+  config: WebsiteConfig,
+  state: PaginationState
+) {
+  const { pagination } = config;
+  if (!pagination?.loadMoreSelector && !pagination?.scroll) return;
+
+  let rows = await countRows(page, config.eventListSelector);
+
+  while (state.pagesLoaded < state.maxPages && rows < state.maxEvents) {
+    const button =
+      pagination.loadMoreSelector &&
+      (await findVisible(page, pagination.loadMoreSelector));
+
+    if (button) {
+      await button.click();
+    } else if (pagination.scroll) {
+      await page.evaluate(() => window.scrollTo(0, document.body.scrollHeight));
+    } else {
+      break;
+    }
+
+    const more = await waitForMoreRows(
+      page,
+      config.eventListSelector,
+      rows,
+      state.settleMs
+    );
+    if (more <= rows) break;
+
+    rows = more;
+    state.pagesLoaded++;
+  }
+}
+
+// Follows the next-page link or button; false once there is no further page
+export async function goToNextPage(
+  page: Page,
+  config: WebsiteConfig,
+  state: PaginationState
+): Promise<boolean> {
+  const selector = config.pagination?.nextPageSelector;
+  if (!selector || state.pagesLoaded >= state.maxPages) return false;
+
+  const next = await findVisible(page, selector);
+  if (!next) return false;
+
+  const href = await next.getAttribute("href");
+  if (href && !/^(#|javascript:)/i.test(href)) {
+    const url = new URL(href, page.url()).toString();
+    if (state.visited.has(url)) return false;
+    await page.goto(url);
+  } else {
+    // Client-side calendars swap the rows in place
+    const before = await page.innerHTML(config.eventSectionSelector);
+    await next.click();
+    const changed = await page
+      .waitForFunction(
+        ([sectionSelector, html]) =>
+          document.querySelector(sectionSelector as string)?.innerHTML !== html,
+        [config.eventSectionSelector, before],
+        { timeout: state.settleMs }
+      )
+      .then(() => true)
+      .catch(() => false);
+    if (!changed) return false;
+  }
+
+  // A page without any rows means we've run past the last one
+  const hasRows = await page
+    .waitForSelector(config.eventListSelector, {
+      state: "visible",
+      timeout: 10000,
+    })
+    .then(() => true)
+    .catch(() => false);
+  if (!hasRows) return false;
+
+  state.visited.add(page.url());
+  state.pagesLoaded++;
+  return true;
+}
+
+// Pages and "load more" batches can overlap, so the same row may be scraped
+// more than once
+export function dedupeSiteEvents(events: Event[]): Event[] {
+  const seen = new Set<string>();
+  return events.filter((event) => {
+    const id = eventId(event);
+    if (seen.has(id)) return false;
+    seen.add(id);
+    return true;
+  });
+}
@@ -0,0 +1,126 @@
+import { formatPrice, parsePrice, Price } from "./price";
+
+type Expected = Partial<Omit<Price, "raw" | "currency">>;
+
+describe("parsePrice", () => {
+  test.each<[string, Expected]>([
+    // State Room Presents ticket buttons
+    ["Buy Tickets", { tiers: [], status: "on_sale" }],
+    [
+      "$25",
+      {
+        minCents: 2500,
+        maxCents: 2500,
+        tiers: [{ minCents: 2500, maxCents: 2500 }],
+      },
+    ],
+    [
+      "Buy Tickets $25",
+      { minCents: 2500, tiers: [{ minCents: 2500, maxCents: 2500 }] },
+    ],
+    ["$27.50", { minCents: 2750, maxCents: 2750 }],
+    ["SOLD OUT", { status: "sold_out", tiers: [] }],
+    ["Sold Out", { status: "sold_out" }],
+    ["sold-out", { status: "sold_out" }],
+    ["SOLD OUT - $25", { status: "sold_out", minCents: 2500 }],
+    ["Low Tickets", { status: "low_tickets" }],
+    ["Almost Sold Out! $35", { status: "low_tickets", minCents: 3500 }],
+    ["Limited tickets remaining", { status: "low_tickets" }],
+    ["Selling Fast", { status: "low_tickets" }],
+    ["CANCELLED", { status: "cancelled" }],
+    ["Canceled", { status: "cancelled" }],
+    ["POSTPONED", { status: "postponed" }],
+    ["Rescheduled - new date TBA", { status: "postponed" }],
+    // Ranges
+    [
+      "$25–$45",
+      {
+        minCents: 2500,
+        maxCents: 4500,
+        tiers: [{ minCents: 2500, maxCents: 4500 }],
+      },
+    ],
+    ["$25 - $45", { minCents: 2500, maxCents: 4500 }],
+    ["$25-45", { minCents: 2500, maxCents: 4500 }],
+    ["$39.50 to $125", { minCents: 3950, maxCents: 12500 }],
+    ["$1,250", { minCents: 125000, maxCents: 125000 }],
+    // SNS Presents widget footers
+    [
+      "$25 ADV / $30 DOS",
+      {
+        minCents: 2500,
+        maxCents: 3000,
+        tiers: [
+          { label: "Advance", minCents: 2500, maxCents: 2500 },
+          { label: "Day of show", minCents: 3000, maxCents: 3000 },
+        ],
+      },
+    ],
+    [
+      "Advance $25, Day of Show $30",
+      {
+        tiers: [
+          { label: "Advance", minCents: 2500, maxCents: 2500 },
+          { label: "Day of show", minCents: 3000, maxCents: 3000 },
+        ],
+      },
+    ],
+    [
+      "GA $35 | VIP $75",
+      {
+        minCents: 3500,
+        maxCents: 7500,
+        tiers: [
+          { label: "General admission", minCents: 3500, maxCents: 3500 },
+          { label: "VIP", minCents: 7500, maxCents: 7500 },
+        ],
+      },
+    ],
+    [
+      "Balcony $45; Floor $55",
+      {
+        tiers: [
+          { label: "Balcony", minCents: 4500, maxCents: 4500 },
+          { label: "Floor", minCents: 5500, maxCents: 5500 },
+        ],
+      },
+    ],
+    ["$20 adv or $25 at the door", { minCents: 2000, maxCents: 2500 }],
+    // Fees
+    ["$25 + fees", { minCents: 2500, fees: "extra" }],
+    ["$25 plus applicable fees", { fees: "extra" }],
+    ["$30 (includes fees)", { minCents: 3000, fees: "included" }],
+    ["$40 all-in", { fees: "included" }],
+    // Free and RSVP
+    ["Free", { free: true, minCents: 0, maxCents: 0, rsvp: false }],
+    ["FREE SHOW", { free: true }],
+    ["Free w/ RSVP", { free: true, rsvp: true }],
+    ["RSVP", { free: false, rsvp: true, minCents: undefined }],
+    ["$10 suggested donation", { free: false, minCents: 1000 }],
+  ])("parses %p", (text, expected) => {
+    const price = parsePrice(text);
+    expect(price).toMatchObject({ ...expected, currency: "USD", raw: text });
+  });
+
+  test("collapses whitespace in the raw text", () => {
+    expect(parsePrice("  $25\n   ADV ").raw).toBe("$25 ADV");
+  });
+});
+
+describe("formatPrice", () => {
+  test.each([
+    ["$25", "$25"],
+    ["$27.50", "$27.50"],
+    ["$25–$45", "$25–$45"],
+    ["$25 ADV / $30 DOS", "$25–$30"],
+    ["Sold Out $25", "SOLD OUT"],
+    ["Cancelled", "CANCELLED"],
+    ["Postponed", "POSTPONED"],
+    ["Free", "Free"],
+    ["Free w/ RSVP", "Free (RSVP)"],
+    ["RSVP", "RSVP"],
+    ["Buy Tickets", "Buy Tickets"],
+  ])("formats %p as %p", (text, expected) => {
+    expect(formatPrice(parsePrice(text))).toBe(expected);
+  });
+});
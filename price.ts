@@ -0,0 +1,170 @@
+import { z } from "zod";
+
+export const PriceStatusSchema = z.enum([
+  "on_sale",
+  "sold_out",
+  "low_tickets",
+  "cancelled",
+  "postponed",
+]);
+
+export type PriceStatus = z.infer<typeof PriceStatusSchema>;
+
+export const PriceTierSchema = z.object({
+  label: z.string().optional(),
+  // Amounts are integer cents to avoid floating point drift
+  minCents: z.number().int(),
+  maxCents: z.number().int(),
+});
+
+export type PriceTier = z.infer<typeof PriceTierSchema>;
+
+export const PriceSchema = z.object({
+  minCents: z.number().int().optional(),
+  maxCents: z.number().int().optional(),
+  currency: z.literal("USD"),
+  tiers: z.array(PriceTierSchema),
+  status: PriceStatusSchema,
+  free: z.boolean(),
+  rsvp: z.boolean(),
+  fees: z.enum(["included", "extra"]).optional(),
+  raw: z.string(),
+});
+
+export type Price = z.infer<typeof PriceSchema>;
+
+const AMOUNT = String.raw`\$\s?(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d{2}))?`;
+const RANGE_PATTERN = new RegExp(
+  String.raw`${AMOUNT}\s*(?:-|to)\s*\$?\s?(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d{2}))?`,
+  "gi"
+);
+const AMOUNT_PATTERN = new RegExp(AMOUNT, "gi");
+
+// Words on ticket buttons that say nothing about the tier
+const NOISE_WORDS =
+  /\b(buy|get|tickets?|now|here|from|starting|at|price|cost|plus|incl\.?|including|includes|fees?|tax(es)?|each)\b|[+:()]/gi;
+
+const TIER_LABELS: [RegExp, string][] = [
+  [/^(adv|advance|presale|pre-sale)$/i, "Advance"],
+  [/^(dos|day of( show)?|door|doors|at the door)$/i, "Day of show"],
+  [/^(ga|general admission|general)$/i, "General admission"],
+  [/^vip$/i, "VIP"],
+];
+
+function toCents(dollars: string, cents?: string): number {
+  return parseInt(dollars.replace(/,/g, "")) * 100 + parseInt(cents ?? "0");
+}
+
+function detectStatus(text: string): PriceStatus {
+  if (/\bcancel+ed\b/i.test(text)) return "cancelled";
+  if (/\b(postponed|rescheduled)\b/i.test(text)) return "postponed";
+  if (/\bsold[\s-]*out\b/i.test(text) && !/almost sold/i.test(text)) {
+    return "sold_out";
+  }
+  if (
+    /\b(low|limited|few) tickets\b|\balmost sold[\s-]*out\b|\bselling fast\b|\bfew (left|remaining)\b/i.test(
+      text
+    )
+  ) {
+    return "low_tickets";
+  }
+  return "on_sale";
+}
+
+function detectFees(text: string): Price["fees"] {
+  if (
+    /\b(incl\.?|including|includes)\s+(all\s+)?fees\b|\ball[\s-]in\b/i.test(
+      text
+    )
+  ) {
+    return "included";
+  }
+  if (/(\+|\bplus\b)\s*(applicable\s+)?(fees?|tax)/i.test(text)) {
+    return "extra";
+  }
+  return undefined;
+}
+
+function normalizeLabel(text: string): string | undefined {
+  const label = text
+    .replace(NOISE_WORDS, " ")
+    .replace(/\s+/g, " ")
+    .replace(/^[\s\-–,.]+|[\s\-–,.]+$/g, "");
+  if (!label) return undefined;
+
+  const known = TIER_LABELS.find(([pattern]) => pattern.test(label));
+  return known ? known[1] : label;
+}
+
+function parseSegment(segment: string): PriceTier[] {
+  const tiers: PriceTier[] = [];
+  let rest = segment;
+
+  rest = rest.replace(
+    RANGE_PATTERN,
+    (_, minDollars, minCents, maxDollars, maxCents) => {
+      tiers.push({
+        minCents: toCents(minDollars, minCents),
+        maxCents: toCents(maxDollars, maxCents),
+      });
+      return " ";
+    }
+  );
+  rest = rest.replace(AMOUNT_PATTERN, (_, dollars, cents) => {
+    const amount = toCents(dollars, cents);
+    tiers.push({ minCents: amount, maxCents: amount });
+    return " ";
+  });
+
+  // A label only applies when the segment holds a single price
+  const label = tiers.length === 1 ? normalizeLabel(rest) : undefined;
+  return tiers.map((tier) => (label ? { label, ...tier } : tier));
+}
+
+export function parsePrice(text: string): Price {
+  const raw = text.replace(/\s+/g, " ").trim();
+  const normalized = raw.replace(/[–—]/g, "-");
+
+  const tiers = normalized
+    .split(/\s*(?:\/|\||;|,(?!\d{3})|\bor\b)\s*/i)
+    .flatMap(parseSegment);
+
+  const free = tiers.length === 0 && /\bfree\b/i.test(normalized);
+  const amounts = tiers.flatMap((tier) => [tier.minCents, tier.maxCents]);
+
+  return {
+    minCents: free ? 0 : amounts.length ? Math.min(...amounts) : undefined,
+    maxCents: free ? 0 : amounts.length ? Math.max(...amounts) : undefined,
+    currency: "USD",
+    tiers,
+    status: detectStatus(normalized),
+    free,
+    rsvp: /\brsvp\b/i.test(normalized),
+    fees: detectFees(normalized),
+    raw,
+  };
+}
+
+function formatCents(cents: number): string {
+  return cents % 100 === 0
+    ? `$${cents / 100}`
+    : `$${Math.floor(cents / 100)}.${(cents % 100)
+        .toString()
+        .padStart(2, "0")}`;
+}
+
+// Short label used for `Event.price`
+export function formatPrice(price: Price): string {
+  if (price.status === "sold_out") return "SOLD OUT";
+  if (price.status === "cancelled") return "CANCELLED";
+  if (price.status === "postponed") return "POSTPONED";
+  if (price.free) return price.rsvp ? "Free (RSVP)" : "Free";
+
+  if (price.minCents !== undefined && price.maxCents !== undefined) {
+    return price.minCents === price.maxCents
+      ? formatCents(price.minCents)
+      : `${formatCents(price.minCents)}–${formatCents(price.maxCents)}`;
+  }
+  if (price.rsvp) return "RSVP";
+  return price.raw;
+}
@@ -0,0 +1,149 @@
+import fs from "fs";
+import { chromium } from "playwright";
+import { loadWebsiteConfigs, WebsiteConfig } from "./config";
+import { DEFAULT_FIXTURES_DIR } from "./fixtures";
+import type { Event } from "./main";
+import { scrapeWebsite } from "./main";
+
+// Runs the real site configs against the synthetic pages in fixtures/, which
+// copy each site's structure with made-up events. They guard the scraping
+// pipeline, not the live markup; `npm run record-fixtures` replaces them with
+// trimmed captures of the real pages, after which the expected events below
+// need updating. The browser tests need Playwright's Chromium
+// (`npx playwright install chromium`) but no network.
+const hasBrowser = fs.existsSync(chromium.executablePath());
+
+// CI sets REQUIRE_BROWSER so a missing browser fails instead of skipping
+if (!hasBrowser && process.env.REQUIRE_BROWSER) {
+  throw new Error(
+    `REQUIRE_BROWSER is set but Chromium is missing at ${chromium.executablePath()}`
+  );
+}
+if (!hasBrowser) {
+  console.warn(
+    "Skipping browser regression tests: run `npx playwright install chromium` to include them"
+  );
+}
+
+const describeWithBrowser = hasBrowser ? describe : describe.skip;
+
+const { configs } = loadWebsiteConfigs();
+const replay = {
+  fixtures: { mode: "replay" as const, dir: DEFAULT_FIXTURES_DIR },
+  retries: 0,
+};
+
+beforeAll(() => {
+  jest.spyOn(console, "log").mockImplementation(() => {});
+  jest.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+function expectStateRoomEvents(events: Event[]) {
+  expect(events).toHaveLength(3);
+  expect(events[0]).toMatchObject({
+    website: "stateroom",
+    venue: "KRCL 90.9FM Presents",
+    event: "KRCL 90.9FM PRESENTS Band A with Band B",
+    presenter: "KRCL 90.9FM",
+    headliner: "Band A",
+    supportingActs: ["Band B"],
+    price: "$25–$30",
+    date: "Sat, Nov 8, 2025",
+    startDate: "2025-11-08",
+    ticketLink: "https://www.axs.com/events/1001/band-a-tickets",
+  });
+  expect(events[1]).toMatchObject({
+    venue: "The State Room",
+    event: "The Trio",
+    price: "SOLD OUT",
+    startDate: "2025-11-14",
+  });
+  expect(events[2]).toMatchObject({
+    event: "Songwriters in the Round featuring Singer C, Singer D",
+    headliner: "Songwriters in the Round",
+    supportingActs: ["Singer C", "Singer D"],
+    price: "$35–$55",
+    startDate: "2025-12-31",
+    endDate: "2026-01-01",
+  });
+}
+
+function expectSnsEvents(events: Event[]) {
+  expect(events).toEqual([
+    expect.objectContaining({
+      website: "snspresents",
+      venue: "Kilby Court",
+      event: "Band C",
+      price: "$18–$22",
+      date: "Fri, Oct 3, 2025",
+      startDate: "2025-10-03",
+      ticketLink:
+        "https://www.etix.com/ticket/p/2001/band-c-salt-lake-city-kilby-court",
+    }),
+    expect.objectContaining({
+      venue: "The Depot",
+      event: "Band E",
+      price: "Free (RSVP)",
+      startDate: "2025-10-11",
+    }),
+  ]);
+}
+
+function overHttp(config: WebsiteConfig): WebsiteConfig {
+  return { ...config, fetcher: "http" };
+}
+
+describeWithBrowser("scraping synthetic fixtures in the browser", () => {
+  jest.setTimeout(60000);
+
+  test("The State Room", async () => {
+    expectStateRoomEvents(
+      await scrapeWebsite(configs.stateroom, "stateroom", replay)
+    );
+  });
+
+  test("SNS Presents", async () => {
+    expectSnsEvents(
+      await scrapeWebsite(configs.snspresents, "snspresents", replay)
+    );
+  });
+
+  test("the HTTP fetcher produces identical events", async () => {
+    for (const site of ["stateroom", "snspresents"]) {
+      expect(
+        await scrapeWebsite(overHttp(configs[site]), site, replay)
+      ).toEqual(await scrapeWebsite(configs[site], site, replay));
+    }
+  });
+
+  test("fails offline for pages that were never recorded", async () => {
+    await expect(
+      scrapeWebsite(configs.eccles, "eccles", replay)
+    ).rejects.toThrow(/Could not load/);
+  });
+});
+
+// Runs everywhere, since the HTTP fetcher needs no browser
+describe("scraping synthetic fixtures over HTTP", () => {
+  test("The State Room", async () => {
+    expectStateRoomEvents(
+      await scrapeWebsite(overHttp(configs.stateroom), "stateroom", replay)
+    );
+  });
+
+  test("SNS Presents", async () => {
+    expectSnsEvents(
+      await scrapeWebsite(overHttp(configs.snspresents), "snspresents", replay)
+    );
+  });
+
+  test("fails offline for pages that were never recorded", async () => {
+    await expect(
+      scrapeWebsite(overHttp(configs.eccles), "eccles", replay)
+    ).rejects.toThrow(/Could not load/);
+  });
+});
@@ -0,0 +1,155 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { EmptyResultError, NavigationError } from "./errors";
+import {
+  appendRunHistory,
+  buildRunReport,
+  captureFailure,
+  loadRunHistory,
+  saveRunReport,
+} from "./report";
+
+let tempDir: string;
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "report-"));
+});
+
+afterEach(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+const startedAt = new Date("2024-07-01T12:00:00Z");
+const finishedAt = new Date("2024-07-01T12:01:30Z");
+
+describe("buildRunReport", () => {
+  test("lists each site's status, attempts, events and error", () => {
+    const navigation = new NavigationError("Could not load https://test.com");
+    navigation.attempts = 3;
+    navigation.artifacts = ["data/failures/stateroom.png"];
+
+    const report = buildRunReport(
+      [
+        {
+          site: "eccles",
+          events: [],
+          selectors: {} as any,
+          selectorSource: "default",
+          selectorScore: 1,
+          attempts: 2,
+          elapsedMs: 1500,
+        },
+      ],
+      [
+        { site: "stateroom", error: navigation, elapsedMs: 20000 },
+        { site: "deervalley", error: new EmptyResultError("No events") },
+      ],
+      [],
+      startedAt,
+      finishedAt
+    );
+
+    expect(report).toMatchObject({
+      startedAt: "2024-07-01T12:00:00.000Z",
+      finishedAt: "2024-07-01T12:01:30.000Z",
+      elapsedMs: 90000,
+      ok: false,
+      configErrors: [],
+    });
+    expect(report.sites.map((site) => site.site)).toEqual([
+      "deervalley",
+      "eccles",
+      "stateroom",
+    ]);
+    expect(report.sites[1]).toMatchObject({
+      status: "ok",
+      attempts: 2,
+      selectorSource: "default",
+    });
+    expect(report.sites[2]).toEqual({
+      site: "stateroom",
+      status: "failed",
+      attempts: 3,
+      events: 0,
+      elapsedMs: 20000,
+      error: {
+        kind: "navigation",
+        message: "Could not load https://test.com",
+        artifacts: ["data/failures/stateroom.png"],
+      },
+    });
+    expect(report.sites[0].error?.kind).toBe("empty_result");
+  });
+
+  test("is ok when every site succeeds", () => {
+    expect(buildRunReport([], [], [], startedAt, finishedAt).ok).toBe(true);
+  });
+});
+
+describe("saveRunReport", () => {
+  test("writes the report as JSON", () => {
+    const file = path.join(tempDir, "nested", "report.json");
+    const report = buildRunReport([], [], [], startedAt, finishedAt);
+
+    saveRunReport(report, file);
+
+    expect(JSON.parse(fs.readFileSync(file, "utf8"))).toEqual(report);
+  });
+});
+
+describe("appendRunHistory", () => {
+  test("keeps the newest reports first, up to the limit", () => {
+    const file = path.join(tempDir, "history.json");
+    const reports = [1, 2, 3].map((minute) =>
+      buildRunReport(
+        [],
+        [],
+        [],
+        startedAt,
+        new Date(startedAt.getTime() + minute * 60000)
+      )
+    );
+
+    for (const report of reports) {
+      appendRunHistory(report, file, 2);
+    }
+
+    expect(loadRunHistory(file)).toEqual([reports[2], reports[1]]);
+  });
+
+  test("starts empty", () => {
+    expect(loadRunHistory(path.join(tempDir, "missing.json"))).toEqual([]);
+  });
+});
+
+describe("captureFailure", () => {
+  test("saves a screenshot and the HTML of the last page", async () => {
+    const page = {
+      screenshot: jest.fn().mockResolvedValue(undefined),
+      content: jest.fn().mockResolvedValue("<html>broken</html>"),
+    };
+    const context = { pages: () => [page] } as any;
+
+    const artifacts = await captureFailure(
+      context,
+      "stateroom",
+      tempDir,
+      startedAt
+    );
+
+    const base = path.join(tempDir, "stateroom-2024-07-01T12-00-00.000Z");
+    expect(artifacts).toEqual([`${base}.png`, `${base}.html`]);
+    expect(page.screenshot).toHaveBeenCalledWith({
+      path: `${base}.png`,
+      fullPage: true,
+    });
+    expect(fs.readFileSync(`${base}.html`, "utf8")).toBe("<html>broken</html>");
+  });
+
+  test("returns nothing when no page was opened", async () => {
+    expect(
+      await captureFailure({ pages: () => [] } as any, "stateroom", tempDir)
+    ).toEqual([]);
+  });
+});
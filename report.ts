@@ -0,0 +1,164 @@
+import fs from "fs";
+import path from "path";
+import type { BrowserContext } from "playwright";
+import { ConfigError, formatConfigError } from "./config";
+import type { ScrapeErrorKind } from "./errors";
+import { writeFileAtomic } from "./files";
+import type { SelectorSource, SiteFailure, SiteScrapeResult } from "./main";
+
+export const DEFAULT_REPORT_FILE = path.join(
+  __dirname,
+  "data",
+  "run-report.json"
+);
+
+// The last MAX_RUN_HISTORY reports, newest first
+export const DEFAULT_RUN_HISTORY_FILE = path.join(
+  __dirname,
+  "data",
+  "run-history.json"
+);
+
+export const MAX_RUN_HISTORY = 50;
+
+export const DEFAULT_ARTIFACTS_DIR = path.join(__dirname, "data", "failures");
+
+export interface SiteReport {
+  site: string;
+  status: "ok" | "failed";
+  attempts: number;
+  events: number;
+  // Events quarantined by validation
+  rejected?: number;
+  // Scraped venue names the venue registry doesn't know
+  unresolvedVenues?: string[];
+  elapsedMs?: number;
+  selectorSource?: SelectorSource;
+  selectorScore?: number;
+  error?: {
+    kind: ScrapeErrorKind;
+    message: string;
+    // Screenshot and HTML of the page when the last attempt failed
+    artifacts: string[];
+  };
+}
+
+// Totals after de-duplication, compared with the event store
+export interface RunCounts {
+  events: number;
+  added: number;
+  removed: number;
+  priceChanged: number;
+  soldOut: number;
+}
+
+export interface RunReport {
+  startedAt: string;
+  finishedAt: string;
+  elapsedMs: number;
+  ok: boolean;
+  sites: SiteReport[];
+  configErrors: string[];
+  counts?: RunCounts;
+}
+
+export function buildRunReport(
+  sites: SiteScrapeResult[],
+  failures: SiteFailure[],
+  configErrors: ConfigError[],
+  startedAt: Date,
+  finishedAt: Date = new Date()
+): RunReport {
+  const siteReports: SiteReport[] = [
+    ...sites.map(
+      (result): SiteReport => ({
+        site: result.site,
+        status: "ok",
+        attempts: result.attempts ?? 1,
+        events: result.events.length,
+        rejected: result.rejected,
+        unresolvedVenues: result.unresolvedVenues,
+        elapsedMs: result.elapsedMs,
+        selectorSource: result.selectorSource,
+        selectorScore: result.selectorScore,
+      })
+    ),
+    ...failures.map(
+      (failure): SiteReport => ({
+        site: failure.site,
+        status: "failed",
+        attempts: failure.error.attempts,
+        events: 0,
+        elapsedMs: failure.elapsedMs,
+        error: {
+          kind: failure.error.kind,
+          message: failure.error.message,
+          artifacts: failure.error.artifacts,
+        },
+      })
+    ),
+  ].sort((a, b) => a.site.localeCompare(b.site));
+
+  return {
+    startedAt: startedAt.toISOString(),
+    finishedAt: finishedAt.toISOString(),
+    elapsedMs: finishedAt.getTime() - startedAt.getTime(),
+    ok: failures.length === 0 && configErrors.length === 0,
+    sites: siteReports,
+    configErrors: configErrors.map(formatConfigError),
+  };
+}
+
+export function saveRunReport(
+  report: RunReport,
+  file: string = DEFAULT_REPORT_FILE
+) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  writeFileAtomic(file, JSON.stringify(report, null, 2));
+}
+
+export function loadRunHistory(
+  file: string = DEFAULT_RUN_HISTORY_FILE
+): RunReport[] {
+  if (!fs.existsSync(file)) return [];
+  return JSON.parse(fs.readFileSync(file, "utf8")) as RunReport[];
+}
+
+export function appendRunHistory(
+  report: RunReport,
+  file: string = DEFAULT_RUN_HISTORY_FILE,
+  limit: number = MAX_RUN_HISTORY
+) {
+  const history = [report, ...loadRunHistory(file)].slice(0, limit);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  writeFileAtomic(file, JSON.stringify(history, null, 2));
+}
+
+// Saves a screenshot and the HTML of the context's last page; capture
+// problems are logged rather than hiding the original failure
+export async function captureFailure(
+  context: BrowserContext,
+  site: string,
+  dir: string = DEFAULT_ARTIFACTS_DIR,
+  now: Date = new Date()
+): Promise<string[]> {
+  const pages = context.pages();
+  const page = pages[pages.length - 1];
+  if (!page) return [];
+
+  const base = path.join(
+    dir,
+    `${site}-${now.toISOString().replace(/:/g, "-")}`
+  );
+  const artifacts: string[] = [];
+  try {
+    fs.mkdirSync(dir, { recursive: true });
+    await page.screenshot({ path: `${base}.png`, fullPage: true });
+    artifacts.push(`${base}.png`);
+    fs.writeFileSync(`${base}.html`, await page.content());
+    artifacts.push(`${base}.html`);
+  } catch (error) {
+    console.warn(`Could not capture the failed page for ${site}:`, error);
+  }
+  return artifacts;
+}
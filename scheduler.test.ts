@@ -0,0 +1,220 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { WebsiteConfig } from "./config";
+import { appendRunHistory, buildRunReport } from "./report";
+import {
+  acquireLock,
+  dueSites,
+  formatDuration,
+  lastRunTimes,
+  LOCK_RETRY_MS,
+  LockError,
+  nextDueTime,
+  parseDuration,
+  runDaemon,
+} from "./scheduler";
+
+const HOUR = 60 * 60 * 1000;
+
+const configs = {
+  stateroom: { venue: "The State Room" },
+  eccles: { venue: "Eccles Theater", intervalMs: HOUR },
+} as unknown as Record<string, WebsiteConfig>;
+
+function siteReport(site: string) {
+  return {
+    site,
+    events: [],
+    selectors: {} as any,
+    selectorSource: "default" as const,
+    selectorScore: 1,
+  };
+}
+
+let tempDir: string;
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "scheduler-"));
+  jest.spyOn(console, "log").mockImplementation(() => {});
+  jest.spyOn(console, "warn").mockImplementation(() => {});
+  jest.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+  jest.restoreAllMocks();
+});
+
+describe("parseDuration", () => {
+  test.each<[string, number | undefined]>([
+    ["90s", 90000],
+    ["30m", 30 * 60 * 1000],
+    ["6h", 6 * HOUR],
+    ["1.5h", 1.5 * HOUR],
+    ["1d", 24 * HOUR],
+    ["5000", 5000],
+    ["0m", undefined],
+    ["soon", undefined],
+  ])("parses %j", (text, expected) => {
+    expect(parseDuration(text)).toBe(expected);
+  });
+
+  test("formats durations back", () => {
+    expect(formatDuration(6 * HOUR)).toBe("6h");
+    expect(formatDuration(90 * 1000)).toBe("90s");
+  });
+});
+
+describe("scheduling", () => {
+  const lastRuns = { stateroom: 0, eccles: 0 };
+
+  test("lastRunTimes takes each site's newest run", () => {
+    const older = buildRunReport(
+      [siteReport("stateroom"), siteReport("eccles")],
+      [],
+      [],
+      new Date("2025-11-01T00:00:00Z")
+    );
+    const newer = buildRunReport(
+      [siteReport("eccles")],
+      [],
+      [],
+      new Date("2025-11-01T06:00:00Z")
+    );
+
+    expect(lastRunTimes([newer, older])).toEqual({
+      stateroom: Date.parse("2025-11-01T00:00:00Z"),
+      eccles: Date.parse("2025-11-01T06:00:00Z"),
+    });
+  });
+
+  test("sites are due once their own interval has passed", () => {
+    expect(dueSites(configs, {}, 6 * HOUR, 0)).toEqual(["stateroom", "eccles"]);
+    expect(dueSites(configs, lastRuns, 6 * HOUR, 2 * HOUR)).toEqual(["eccles"]);
+    expect(dueSites(configs, lastRuns, 6 * HOUR, 6 * HOUR)).toEqual([
+      "stateroom",
+      "eccles",
+    ]);
+    expect(nextDueTime(configs, lastRuns, 6 * HOUR)).toBe(HOUR);
+  });
+});
+
+describe("acquireLock", () => {
+  test("refuses a lock held by a running process", () => {
+    const file = path.join(tempDir, "scrape.lock");
+    const release = acquireLock(file);
+
+    expect(fs.readFileSync(file, "utf8")).toBe(String(process.pid));
+    expect(() => acquireLock(file)).toThrow(LockError);
+
+    release();
+    expect(fs.existsSync(file)).toBe(false);
+  });
+
+  test("takes over a lock left by a process that exited", () => {
+    const file = path.join(tempDir, "scrape.lock");
+    fs.writeFileSync(file, String(2 ** 30));
+
+    acquireLock(file)();
+
+    expect(fs.existsSync(file)).toBe(false);
+  });
+});
+
+describe("runDaemon", () => {
+  test("runs due sites one run at a time and waits for the next", async () => {
+    const runHistoryFile = path.join(tempDir, "history.json");
+    appendRunHistory(
+      buildRunReport([siteReport("stateroom")], [], [], new Date(0)),
+      runHistoryFile
+    );
+    const controller = new AbortController();
+    let clock = 2 * HOUR;
+    let running = 0;
+    const runs: string[][] = [];
+    const sleeps: number[] = [];
+
+    await runDaemon({
+      configs,
+      intervalMs: 6 * HOUR,
+      runHistoryFile,
+      signal: controller.signal,
+      now: () => clock,
+      run: async (sites) => {
+        expect(running).toBe(0);
+        running++;
+        runs.push(sites);
+        clock += 30 * 60 * 1000;
+        running--;
+      },
+      sleep: async (ms) => {
+        sleeps.push(ms);
+        clock += ms;
+        if (sleeps.length === 2) controller.abort();
+      },
+    });
+
+    expect(runs).toEqual([["eccles"], ["eccles"]]);
+    expect(sleeps).toEqual([HOUR / 2, HOUR / 2]);
+  });
+
+  test("waits out the interval after a failed run", async () => {
+    const controller = new AbortController();
+    const run = jest.fn().mockRejectedValue(new Error("boom"));
+
+    await runDaemon({
+      configs,
+      runHistoryFile: path.join(tempDir, "history.json"),
+      signal: controller.signal,
+      now: () => 0,
+      run,
+      sleep: async () => controller.abort(),
+    });
+
+    expect(run).toHaveBeenCalledWith(["stateroom", "eccles"]);
+    expect(console.error).toHaveBeenCalledWith(
+      "Scheduled run failed:",
+      expect.any(Error)
+    );
+  });
+
+  test("retries later while another scrape holds the lock", async () => {
+    const controller = new AbortController();
+    const sleeps: number[] = [];
+    const run = jest
+      .fn()
+      .mockRejectedValueOnce(new LockError("Another scrape (pid 1) holds it"))
+      .mockResolvedValue(undefined);
+
+    await runDaemon({
+      configs,
+      runHistoryFile: path.join(tempDir, "history.json"),
+      signal: controller.signal,
+      now: () => 0,
+      run,
+      sleep: async (ms) => {
+        sleeps.push(ms);
+        if (sleeps.length === 2) controller.abort();
+      },
+    });
+
+    expect(run).toHaveBeenCalledTimes(2);
+    expect(run).toHaveBeenLastCalledWith(["stateroom", "eccles"]);
+    expect(sleeps[0]).toBe(LOCK_RETRY_MS);
+    expect(console.error).not.toHaveBeenCalled();
+  });
+
+  test("refuses to start without sites", async () => {
+    const run = jest.fn();
+
+    await expect(
+      runDaemon({
+        configs: {},
+        runHistoryFile: path.join(tempDir, "history.json"),
+        run,
+      })
+    ).rejects.toThrow(/No sites/);
+    expect(run).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,194 @@
+import fs from "fs";
+import path from "path";
+import type { WebsiteConfig } from "./config";
+import { loadRunHistory, RunReport } from "./report";
+
+export const DEFAULT_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+// Held while any scrape runs, so the daemon, cron jobs and manual runs never
+// write the store and reports at the same time
+export const DEFAULT_LOCK_FILE = path.join(__dirname, "data", "scrape.lock");
+
+// How long to wait before trying again when another run holds the lock
+export const LOCK_RETRY_MS = 60 * 1000;
+
+// setTimeout fires immediately for anything longer
+const MAX_SLEEP_MS = 2 ** 31 - 1;
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+// "90s", "15m", "6h", "1d", or plain milliseconds
+export function parseDuration(text: string): number | undefined {
+  const match = text.trim().match(/^(\d+(?:\.\d+)?)\s*(ms|s|m|h|d)?$/i);
+  if (!match) return undefined;
+
+  const unit = DURATION_UNITS[(match[2] ?? "ms").toLowerCase()];
+  const ms = Math.round(parseFloat(match[1]) * unit);
+  return ms > 0 ? ms : undefined;
+}
+
+export function formatDuration(ms: number): string {
+  if (ms % DURATION_UNITS.d === 0) return `${ms / DURATION_UNITS.d}d`;
+  if (ms % DURATION_UNITS.h === 0) return `${ms / DURATION_UNITS.h}h`;
+  if (ms % DURATION_UNITS.m === 0) return `${ms / DURATION_UNITS.m}m`;
+  return `${Math.ceil(ms / 1000)}s`;
+}
+
+// When each site's latest run started, from the newest-first run history
+export function lastRunTimes(history: RunReport[]): Record<string, number> {
+  const times: Record<string, number> = {};
+  for (const report of history) {
+    for (const site of report.sites) {
+      times[site.site] ??= Date.parse(report.startedAt);
+    }
+  }
+  return times;
+}
+
+function nextRunAt(
+  config: WebsiteConfig,
+  lastRun: number | undefined,
+  defaultIntervalMs: number
+): number {
+  return lastRun === undefined
+    ? 0
+    : lastRun + (config.intervalMs ?? defaultIntervalMs);
+}
+
+export function dueSites(
+  configs: Record<string, WebsiteConfig>,
+  lastRuns: Record<string, number>,
+  defaultIntervalMs: number,
+  now: number
+): string[] {
+  return Object.entries(configs)
+    .filter(
+      ([key, config]) =>
+        nextRunAt(config, lastRuns[key], defaultIntervalMs) <= now
+    )
+    .map(([key]) => key);
+}
+
+export function nextDueTime(
+  configs: Record<string, WebsiteConfig>,
+  lastRuns: Record<string, number>,
+  defaultIntervalMs: number
+): number {
+  return Math.min(
+    ...Object.entries(configs).map(([key, config]) =>
+      nextRunAt(config, lastRuns[key], defaultIntervalMs)
+    )
+  );
+}
+
+export class LockError extends Error {}
+
+function isRunning(pid: number): boolean {
+  if (!Number.isInteger(pid) || pid <= 0) return false;
+  try {
+    // Signal 0 only checks that the process exists
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+// Creates the lock file with our pid and returns a function that removes it.
+// Locks left behind by a process that has since exited are taken over.
+export function acquireLock(file: string = DEFAULT_LOCK_FILE): () => void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  try {
+    fs.writeFileSync(file, String(process.pid), { flag: "wx" });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+
+    const pid = Number(fs.readFileSync(file, "utf8").trim());
+    if (isRunning(pid)) {
+      throw new LockError(`Another scrape (pid ${pid}) holds ${file}`);
+    }
+    fs.rmSync(file, { force: true });
+    return acquireLock(file);
+  }
+  return () => fs.rmSync(file, { force: true });
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+    const timer = setTimeout(resolve, Math.min(ms, MAX_SLEEP_MS));
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+}
+
+export interface DaemonOptions {
+  configs: Record<string, WebsiteConfig>;
+  // Scrapes the given sites; expected to append to the run history and to
+  // throw LockError when another scrape is running
+  run: (sites: string[]) => Promise<unknown>;
+  intervalMs?: number;
+  runHistoryFile?: string;
+  // Stops the daemon once the current run, if any, finishes
+  signal?: AbortSignal;
+  now?: () => number;
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+}
+
+// Scrapes each site whenever its interval has passed since its last run,
+// one run at a time; a run that overruns just delays the next one
+export async function runDaemon(options: DaemonOptions): Promise<void> {
+  if (Object.keys(options.configs).length === 0) {
+    throw new Error("No sites to schedule");
+  }
+
+  const intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS;
+  const now = options.now ?? Date.now;
+  const wait = options.sleep ?? sleep;
+  // Seeded from the history so a restart doesn't scrape everything again
+  const lastRuns = lastRunTimes(loadRunHistory(options.runHistoryFile));
+
+  while (!options.signal?.aborted) {
+    const started = now();
+    const due = dueSites(options.configs, lastRuns, intervalMs, started);
+
+    if (due.length === 0) {
+      const nextAt = nextDueTime(options.configs, lastRuns, intervalMs);
+      console.log(
+        `Next run in ${formatDuration(nextAt - started)} at ${new Date(
+          nextAt
+        ).toISOString()}`
+      );
+      await wait(nextAt - started, options.signal);
+      continue;
+    }
+
+    console.log(`Scheduled run for ${due.join(", ")}`);
+    try {
+      await options.run(due);
+    } catch (error) {
+      if (error instanceof LockError) {
+        console.warn(`${error.message}; retrying later`);
+        await wait(LOCK_RETRY_MS, options.signal);
+        continue;
+      }
+      console.error("Scheduled run failed:", error);
+    }
+    // Counted even when the run failed, so a broken site waits its interval
+    for (const site of due) {
+      lastRuns[site] = started;
+    }
+  }
+}
@@ -0,0 +1,108 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  clearSelectorCache,
+  createSelectorCache,
+  formatSelectorCache,
+  getCachedSelectors,
+  hashDomStructure,
+  loadSelectorCache,
+  recordAcceptedSelectors,
+  saveSelectorCache,
+} from "./selectorCache";
+
+const selectors = {
+  venue: ".venue",
+  price: ".price",
+  event: ".event",
+  date: ".date",
+  ticketLink: ".ticket a",
+};
+
+describe("hashDomStructure", () => {
+  const row = (title: string) =>
+    `<div class="row event"><h3 class="title" data-id="${title}">${title}</h3><a href="/${title}">Tickets</a></div>`;
+
+  test("ignores text, attributes and the number of rows", () => {
+    expect(hashDomStructure(row("a"))).toBe(
+      hashDomStructure(`${row("b")}${row("c")}`)
+    );
+    expect(hashDomStructure('<div class="b a"></div>')).toBe(
+      hashDomStructure('<div class="a  b"></div>')
+    );
+  });
+
+  test("changes when the layout changes", () => {
+    expect(hashDomStructure(row("a"))).not.toBe(
+      hashDomStructure(row("a").replace('class="title"', 'class="heading"'))
+    );
+  });
+});
+
+describe("selector cache", () => {
+  const now = new Date("2024-07-01T12:00:00Z");
+
+  test("looks up selectors by site and structure hash", () => {
+    const cache = createSelectorCache();
+    recordAcceptedSelectors(cache, "stateroom", "hash1", selectors, 0.9, now);
+
+    expect(getCachedSelectors(cache, "stateroom", "hash1", now)).toEqual(
+      selectors
+    );
+    expect(getCachedSelectors(cache, "stateroom", "hash2")).toBeUndefined();
+    expect(getCachedSelectors(cache, "eccles", "hash1")).toBeUndefined();
+    expect(cache.sites.stateroom.byStructure.hash1.lastUsedAt).toBe(
+      now.toISOString()
+    );
+  });
+
+  test("keeps a history of accepted selectors", () => {
+    const cache = createSelectorCache();
+    recordAcceptedSelectors(cache, "stateroom", "hash1", selectors, 0.9, now);
+    recordAcceptedSelectors(
+      cache,
+      "stateroom",
+      "hash1",
+      { ...selectors, date: ".when" },
+      1,
+      now
+    );
+
+    expect(cache.sites.stateroom.history).toHaveLength(2);
+    expect(getCachedSelectors(cache, "stateroom", "hash1")?.date).toBe(".when");
+    expect(formatSelectorCache(cache)[0]).toBe(
+      "stateroom: 1 structure(s), 2 accepted selector set(s)"
+    );
+  });
+
+  test("clears one site or everything", () => {
+    const cache = createSelectorCache();
+    recordAcceptedSelectors(cache, "stateroom", "hash1", selectors, 1);
+    recordAcceptedSelectors(cache, "eccles", "hash2", selectors, 1);
+
+    clearSelectorCache(cache, "stateroom");
+    expect(Object.keys(cache.sites)).toEqual(["eccles"]);
+
+    clearSelectorCache(cache);
+    expect(cache.sites).toEqual({});
+  });
+
+  test("round-trips through the cache file", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "selector-cache-"));
+    try {
+      const file = path.join(dir, "cache.json");
+      const cache = createSelectorCache();
+      recordAcceptedSelectors(cache, "stateroom", "hash1", selectors, 1, now);
+
+      saveSelectorCache(cache, file);
+
+      expect(loadSelectorCache(file)).toEqual(cache);
+      expect(loadSelectorCache(path.join(dir, "missing.json"))).toEqual(
+        createSelectorCache()
+      );
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
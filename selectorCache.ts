@@ -0,0 +1,143 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import type { WebsiteConfig } from "./config";
+import { writeFileAtomic } from "./files";
+
+export const DEFAULT_SELECTOR_CACHE_FILE = path.join(
+  __dirname,
+  "data",
+  "selector-cache.json"
+);
+
+const CACHE_VERSION = 1;
+
+type Selectors = WebsiteConfig["defaultSelectors"];
+
+export interface CachedSelectors {
+  structureHash: string;
+  selectors: Selectors;
+  score: number;
+  acceptedAt: string;
+  lastUsedAt?: string;
+}
+
+export interface SiteSelectorCache {
+  // Latest accepted selectors for each DOM structure seen on the site
+  byStructure: Record<string, CachedSelectors>;
+  // Every accepted selector set, oldest first
+  history: CachedSelectors[];
+}
+
+export interface SelectorCache {
+  version: number;
+  sites: Record<string, SiteSelectorCache>;
+}
+
+export function createSelectorCache(): SelectorCache {
+  return { version: CACHE_VERSION, sites: {} };
+}
+
+export function loadSelectorCache(
+  file: string = DEFAULT_SELECTOR_CACHE_FILE
+): SelectorCache {
+  if (!fs.existsSync(file)) return createSelectorCache();
+
+  const cache = JSON.parse(fs.readFileSync(file, "utf8")) as SelectorCache;
+  if (cache.version !== CACHE_VERSION) {
+    throw new Error(
+      `Unsupported selector cache version ${cache.version} in ${file}`
+    );
+  }
+  return cache;
+}
+
+export function saveSelectorCache(
+  cache: SelectorCache,
+  file: string = DEFAULT_SELECTOR_CACHE_FILE
+) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  writeFileAtomic(file, JSON.stringify(cache, null, 2));
+}
+
+// Hashes the set of tag/class combinations so text changes and the number
+// of listed events don't invalidate the cache, but a new layout does
+export function hashDomStructure(html: string): string {
+  const signatures = new Set<string>();
+  for (const match of html.matchAll(/<([a-z][a-z0-9-]*)\b([^>]*)>/gi)) {
+    const classes = match[2]
+      .match(/\bclass\s*=\s*["']([^"']*)["']/i)?.[1]
+      .split(/\s+/)
+      .filter(Boolean)
+      .sort()
+      .join(".");
+    signatures.add(`${match[1].toLowerCase()}${classes ? `.${classes}` : ""}`);
+  }
+
+  return crypto
+    .createHash("sha1")
+    .update([...signatures].sort().join("\n"))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+export function getCachedSelectors(
+  cache: SelectorCache,
+  site: string,
+  structureHash: string,
+  now: Date = new Date()
+): Selectors | undefined {
+  const entry = cache.sites[site]?.byStructure[structureHash];
+  if (!entry) return undefined;
+
+  entry.lastUsedAt = now.toISOString();
+  return entry.selectors;
+}
+
+export function recordAcceptedSelectors(
+  cache: SelectorCache,
+  site: string,
+  structureHash: string,
+  selectors: Selectors,
+  score: number,
+  now: Date = new Date()
+) {
+  const siteCache = (cache.sites[site] ??= { byStructure: {}, history: [] });
+  const entry: CachedSelectors = {
+    structureHash,
+    selectors,
+    score,
+    acceptedAt: now.toISOString(),
+  };
+  siteCache.byStructure[structureHash] = entry;
+  siteCache.history.push({ ...entry });
+}
+
+export function clearSelectorCache(cache: SelectorCache, site?: string) {
+  if (site) {
+    delete cache.sites[site];
+  } else {
+    cache.sites = {};
+  }
+}
+
+export function formatSelectorCache(
+  cache: SelectorCache,
+  site?: string
+): string[] {
+  return Object.entries(cache.sites)
+    .filter(([key]) => !site || key === site)
+    .flatMap(([key, siteCache]) => [
+      `${key}: ${Object.keys(siteCache.byStructure).length} structure(s), ${
+        siteCache.history.length
+      } accepted selector set(s)`,
+      ...Object.values(siteCache.byStructure).map(
+        (entry) =>
+          `  ${entry.structureHash} score ${entry.score.toFixed(2)} accepted ${
+            entry.acceptedAt
+          }${
+            entry.lastUsedAt ? ` last used ${entry.lastUsedAt}` : ""
+          }\n    ${JSON.stringify(entry.selectors)}`
+      ),
+    ]);
+}
@@ -0,0 +1,115 @@
+import { generateObject } from "ai";
+import type { WebsiteConfig } from "./config";
+import {
+  getSelectorsFromLLM,
+  scoreEvents,
+  selectorExamples,
+} from "./selectors";
+
+jest.mock("ai", () => ({
+  generateObject: jest.fn(),
+}));
+
+describe("getSelectorsFromLLM", () => {
+  const mockDefaultSelectors: WebsiteConfig["defaultSelectors"] = {
+    venue: ".venue",
+    price: ".price",
+    event: ".event",
+    date: ".date",
+    ticketLink: ".ticket",
+  };
+
+  test("returns LLM-generated selectors when successful", async () => {
+    (generateObject as jest.Mock).mockResolvedValue({
+      object: {
+        selectors: {
+          venue: ".new-venue",
+          price: ".new-price",
+          event: ".new-event",
+          date: ".new-date",
+          ticketLink: ".new-ticket",
+        },
+      },
+    });
+
+    const result = await getSelectorsFromLLM(
+      "<div>Mock HTML</div>",
+      mockDefaultSelectors
+    );
+    expect(result).toEqual({
+      venue: ".new-venue",
+      price: ".new-price",
+      event: ".new-event",
+      date: ".new-date",
+      ticketLink: ".new-ticket",
+    });
+  });
+
+  test("sends trimmed HTML and model settings to the LLM", async () => {
+    (generateObject as jest.Mock).mockResolvedValue({
+      object: { selectors: mockDefaultSelectors },
+    });
+
+    await getSelectorsFromLLM(
+      '<div class="row" style="color: red"><script>track()</script>Show</div>',
+      mockDefaultSelectors,
+      { temperature: 0.5, promptTemplate: "Find selectors in {{html}}" }
+    );
+
+    expect(generateObject).toHaveBeenCalledWith(
+      expect.objectContaining({
+        prompt: 'Find selectors in <div class="row">Show</div>',
+        temperature: 0.5,
+      })
+    );
+  });
+
+  test("returns default selectors when LLM fails", async () => {
+    (generateObject as jest.Mock).mockRejectedValue(new Error("LLM failed"));
+
+    const result = await getSelectorsFromLLM(
+      "<div>Mock HTML</div>",
+      mockDefaultSelectors
+    );
+    expect(result).toEqual(mockDefaultSelectors);
+  });
+});
+
+describe("scoreEvents", () => {
+  test("scores the fraction of complete rows", () => {
+    const complete = {
+      website: "testSite",
+      venue: "Test Venue",
+      price: "$25",
+      event: "Band A",
+      date: "Thu, Jul 4, 2024",
+      ticketLink: "https://tickets.test/a",
+    };
+    expect(scoreEvents([])).toBe(0);
+    expect(scoreEvents([complete, { ...complete, ticketLink: "" }])).toBe(0.5);
+  });
+});
+
+describe("selectorExamples", () => {
+  test("skips repeated selector sets", () => {
+    const config: WebsiteConfig = {
+      url: "https://a.test",
+      venue: "A",
+      eventListSelector: ".row",
+      eventSectionSelector: ".section",
+      defaultSelectors: {
+        venue: ".venue",
+        price: ".price",
+        event: ".event",
+        date: ".date",
+        ticketLink: ".ticket",
+      },
+    };
+
+    expect(
+      selectorExamples({ a: config, b: { ...config, url: "https://b.test" } })
+    ).toEqual([
+      { eventListSelector: ".row", selectors: config.defaultSelectors },
+    ]);
+  });
+});
@@ -0,0 +1,75 @@
+import { generateObject } from "ai";
+import { z } from "zod";
+import { SelectorsSchema, WebsiteConfig, websiteConfigs } from "./config";
+import type { Event } from "./event";
+import {
+  buildSelectorPrompt,
+  createLlmModel,
+  LlmConfig,
+  resolveLlmConfig,
+  trimHtml,
+} from "./llm";
+
+const MAX_PROMPT_EXAMPLES = 3;
+
+// Distinct curated selector sets from the registered sites
+export function selectorExamples(
+  configs: Record<string, WebsiteConfig> = websiteConfigs
+) {
+  const seen = new Set<string>();
+  const examples: {
+    eventListSelector: string;
+    selectors: WebsiteConfig["defaultSelectors"];
+  }[] = [];
+
+  for (const config of Object.values(configs)) {
+    const example = {
+      eventListSelector: config.eventListSelector,
+      selectors: config.defaultSelectors,
+    };
+    const key = JSON.stringify(example);
+    if (seen.has(key)) continue;
+
+    seen.add(key);
+    examples.push(example);
+    if (examples.length === MAX_PROMPT_EXAMPLES) break;
+  }
+  return examples;
+}
+
+export async function getSelectorsFromLLM(
+  html: string,
+  defaultSelectors: WebsiteConfig["defaultSelectors"],
+  llmOverrides: Partial<LlmConfig> = {}
+): Promise<WebsiteConfig["defaultSelectors"]> {
+  try {
+    const llm = resolveLlmConfig(llmOverrides);
+    const prompt = buildSelectorPrompt(
+      trimHtml(html, llm.maxHtmlChars),
+      selectorExamples(),
+      llm.promptTemplate
+    );
+
+    const { object } = await generateObject({
+      model: createLlmModel(llm),
+      schema: z.object({ selectors: SelectorsSchema }),
+      prompt,
+      temperature: llm.temperature,
+      abortSignal: AbortSignal.timeout(llm.timeoutMs),
+    });
+
+    return object.selectors;
+  } catch {
+    return defaultSelectors;
+  }
+}
+
+// Fraction of rows with a non-empty title, date and ticket link
+export function scoreEvents(events: Event[]): number {
+  if (events.length === 0) return 0;
+
+  const complete = events.filter(
+    (event) => event.event && event.date && event.ticketLink
+  );
+  return complete.length / events.length;
+}
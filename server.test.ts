@@ -0,0 +1,235 @@
+import fs from "fs";
+import http from "http";
+import type { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import type { WebsiteConfig } from "./config";
+import type { Event } from "./main";
+import { parsePrice } from "./price";
+import { appendRunHistory, buildRunReport } from "./report";
+import {
+  createApiServer,
+  filterEvents,
+  HttpError,
+  parseEventQuery,
+  parsePaging,
+} from "./server";
+import { createStore, recordRun, saveStore } from "./store";
+import { makeEvent } from "./testEvents";
+
+const bandA = makeEvent({
+  priceDetails: parsePrice("$25"),
+  event: "Band A with Band B",
+  headliner: "Band A",
+  supportingActs: ["Band B"],
+  date: "Sat, Nov 8, 2025",
+  startDate: "2025-11-08",
+});
+const soldOut: Event = {
+  ...bandA,
+  event: "The Trio",
+  headliner: "The Trio",
+  supportingActs: undefined,
+  price: "SOLD OUT",
+  priceDetails: parsePrice("SOLD OUT $40"),
+  startDate: "2025-11-14",
+  ticketLink: "https://tickets.test/trio",
+};
+const festival: Event = {
+  ...bandA,
+  website: "snspresents",
+  sources: ["snspresents", "stateroom"],
+  venue: "Kilby Court",
+  event: "Winter Fest",
+  headliner: "Winter Fest",
+  supportingActs: undefined,
+  price: "Free",
+  priceDetails: parsePrice("Free"),
+  startDate: "2025-12-31",
+  endDate: "2026-01-02",
+  ticketLink: "https://tickets.test/fest",
+  tags: [
+    { name: "festival", confidence: 0.8, source: "rule" },
+    { name: "21+", confidence: 1, source: "override" },
+  ],
+};
+
+function query(text: string) {
+  return parseEventQuery(new URLSearchParams(text));
+}
+
+describe("filterEvents", () => {
+  const events = [bandA, soldOut, festival];
+
+  test.each<[string, Event[]]>([
+    ["", events],
+    ["venue=the%20state%20room", [bandA, soldOut]],
+    ["website=stateroom", events],
+    ["website=snspresents", [festival]],
+    ["from=2025-11-10", [soldOut, festival]],
+    ["to=2025-11-10", [bandA]],
+    ["from=2026-01-01&to=2026-01-31", [festival]],
+    ["maxPrice=30", [bandA, festival]],
+    ["soldOut=true", [soldOut]],
+    ["soldOut=false", [bandA, festival]],
+    ["q=band%20b", [bandA]],
+    ["q=KILBY", [festival]],
+    ["tag=21%2B", [festival]],
+    ["tag=Festival", [festival]],
+    ["tag=comedy", []],
+  ])("filters by %j", (text, expected) => {
+    expect(filterEvents(events, query(text))).toEqual(expected);
+  });
+
+  test.each(["from=tomorrow", "maxPrice=-1", "soldOut=yes"])(
+    "rejects %j",
+    (text) => {
+      expect(() => query(text)).toThrow(HttpError);
+    }
+  );
+});
+
+describe("parsePaging", () => {
+  test("defaults and caps the page size", () => {
+    expect(parsePaging(new URLSearchParams())).toEqual({
+      limit: 50,
+      offset: 0,
+    });
+    expect(parsePaging(new URLSearchParams("limit=10000&offset=5"))).toEqual({
+      limit: 500,
+      offset: 5,
+    });
+  });
+
+  test("rejects fractional pages", () => {
+    expect(() => parsePaging(new URLSearchParams("limit=1.5"))).toThrow(
+      HttpError
+    );
+  });
+});
+
+describe("createApiServer", () => {
+  const configs = {
+    stateroom: {
+      url: "https://thestateroompresents.com/the-state-room",
+      venue: "The State Room",
+    },
+    snspresents: {
+      url: "https://snspresents.com/",
+      venue: "SNS Presents",
+      aggregator: true,
+    },
+  } as unknown as Record<string, WebsiteConfig>;
+
+  let tempDir: string;
+  let server: http.Server;
+  let baseUrl: string;
+  let storedIds: Record<string, string>;
+
+  beforeAll(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "server-"));
+    const storeFile = path.join(tempDir, "events.json");
+    const runHistoryFile = path.join(tempDir, "runs.json");
+
+    const store = createStore();
+    recordRun(store, [bandA, soldOut, festival], { scrapedSites: [] });
+    saveStore(store, storeFile);
+    storedIds = Object.fromEntries(
+      Object.values(store.events).map((stored) => [
+        stored.event.event,
+        stored.id,
+      ])
+    );
+    appendRunHistory(
+      buildRunReport([], [], [], new Date("2025-11-01T12:00:00Z")),
+      runHistoryFile
+    );
+
+    server = createApiServer({ configs, storeFile, runHistoryFile });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  async function get(pathname: string) {
+    const response = await fetch(`${baseUrl}${pathname}`);
+    return { status: response.status, body: await response.json() };
+  }
+
+  test("lists events soonest first with paging", async () => {
+    const { status, body } = await get("/events?limit=2&offset=1");
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ total: 3, limit: 2, offset: 1 });
+    expect(body.events.map((event: Event) => event.event)).toEqual([
+      "The Trio",
+      "Winter Fest",
+    ]);
+  });
+
+  test("applies filters", async () => {
+    const { body } = await get("/events?soldOut=false&maxPrice=10");
+
+    expect(body.total).toBe(1);
+    expect(body.events[0]).toMatchObject({
+      event: "Winter Fest",
+      id: storedIds["Winter Fest"],
+    });
+  });
+
+  test("serves a single event", async () => {
+    const id = storedIds["Band A with Band B"];
+
+    expect(await get(`/events/${id}`)).toEqual({
+      status: 200,
+      body: expect.objectContaining({ id, headliner: "Band A" }),
+    });
+    expect((await get("/events/nope")).status).toBe(404);
+  });
+
+  test("lists venues from the site configs", async () => {
+    expect((await get("/venues")).body).toEqual({
+      venues: [
+        {
+          site: "stateroom",
+          name: "The State Room",
+          url: "https://thestateroompresents.com/the-state-room",
+          aggregator: false,
+          events: 3,
+        },
+        {
+          site: "snspresents",
+          name: "SNS Presents",
+          url: "https://snspresents.com/",
+          aggregator: true,
+          events: 1,
+        },
+      ],
+    });
+  });
+
+  test("lists recent runs", async () => {
+    const { body } = await get("/runs");
+
+    expect(body).toMatchObject({ total: 1, limit: 50, offset: 0 });
+    expect(body.runs[0].startedAt).toBe("2025-11-01T12:00:00.000Z");
+  });
+
+  test("reports bad requests and unknown paths", async () => {
+    expect(await get("/events?from=soon")).toEqual({
+      status: 400,
+      body: { error: "from must be a date like 2025-01-31" },
+    });
+    expect((await get("/nope")).status).toBe(404);
+    expect(await get("/events/%E0%A4%A")).toEqual({
+      status: 400,
+      body: { error: "Malformed event id %E0%A4%A" },
+    });
+  });
+});
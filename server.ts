@@ -0,0 +1,282 @@
+import http from "http";
+import type { WebsiteConfig } from "./config";
+import type { Event } from "./main";
+import { loadRunHistory } from "./report";
+import { currentEvents, isSoldOut, loadStore } from "./store";
+
+export const DEFAULT_PORT = 8080;
+export const DEFAULT_HOST = "127.0.0.1";
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 500;
+
+export interface ApiOptions {
+  configs: Record<string, WebsiteConfig>;
+  storeFile?: string;
+  runHistoryFile?: string;
+}
+
+export interface EventQuery {
+  venue?: string;
+  website?: string;
+  // YYYY-MM-DD, inclusive; events overlapping the range match
+  from?: string;
+  to?: string;
+  // Dollars, compared with the cheapest ticket
+  maxPrice?: number;
+  soldOut?: boolean;
+  // Events carrying this tag, e.g. comedy or 21+
+  tag?: string;
+  // Case-insensitive search of the title, acts, presenter and venue
+  q?: string;
+}
+
+export interface Paging {
+  limit: number;
+  offset: number;
+}
+
+export interface Page<T> extends Paging {
+  total: number;
+  items: T[];
+}
+
+export class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+function dateParam(params: URLSearchParams, name: string): string | undefined {
+  const value = params.get(name) ?? undefined;
+  if (value !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    throw new HttpError(400, `${name} must be a date like 2025-01-31`);
+  }
+  return value;
+}
+
+function numberParam(
+  params: URLSearchParams,
+  name: string,
+  min: number
+): number | undefined {
+  const value = params.get(name);
+  if (value === null) return undefined;
+  const parsed = Number(value);
+  if (value.trim() === "" || !Number.isFinite(parsed) || parsed < min) {
+    throw new HttpError(400, `${name} must be a number of at least ${min}`);
+  }
+  return parsed;
+}
+
+function booleanParam(
+  params: URLSearchParams,
+  name: string
+): boolean | undefined {
+  const value = params.get(name);
+  if (value === null) return undefined;
+  if (value !== "true" && value !== "false") {
+    throw new HttpError(400, `${name} must be true or false`);
+  }
+  return value === "true";
+}
+
+export function parseEventQuery(params: URLSearchParams): EventQuery {
+  return {
+    venue: params.get("venue") ?? undefined,
+    website: params.get("website") ?? undefined,
+    from: dateParam(params, "from"),
+    to: dateParam(params, "to"),
+    maxPrice: numberParam(params, "maxPrice", 0),
+    soldOut: booleanParam(params, "soldOut"),
+    tag: params.get("tag") ?? undefined,
+    q: params.get("q") ?? undefined,
+  };
+}
+
+export function parsePaging(params: URLSearchParams): Paging {
+  const limit = numberParam(params, "limit", 1) ?? DEFAULT_PAGE_SIZE;
+  const offset = numberParam(params, "offset", 0) ?? 0;
+  if (!Number.isInteger(limit) || !Number.isInteger(offset)) {
+    throw new HttpError(400, "limit and offset must be integers");
+  }
+  return { limit: Math.min(limit, MAX_PAGE_SIZE), offset };
+}
+
+export function paginate<T>(items: T[], paging: Paging): Page<T> {
+  return {
+    ...paging,
+    total: items.length,
+    items: items.slice(paging.offset, paging.offset + paging.limit),
+  };
+}
+
+function searchText(event: Event): string {
+  return [
+    event.event,
+    event.presenter,
+    event.headliner,
+    ...(event.supportingActs ?? []),
+    event.tourName,
+    event.venue,
+  ]
+    .filter(Boolean)
+    .join(" ")
+    .toLowerCase();
+}
+
+function sameText(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+export function filterEvents(events: Event[], query: EventQuery): Event[] {
+  return events.filter((event) => {
+    if (query.venue && !sameText(event.venue, query.venue)) return false;
+    if (
+      query.website &&
+      !(event.sources ?? [event.website]).includes(query.website)
+    ) {
+      return false;
+    }
+
+    if (query.from || query.to) {
+      const start = event.startDate?.slice(0, 10);
+      const end = event.endDate?.slice(0, 10) ?? start;
+      if (!start || !end) return false;
+      if (query.from && end < query.from) return false;
+      if (query.to && start > query.to) return false;
+    }
+
+    if (query.maxPrice !== undefined) {
+      const minCents = event.priceDetails?.minCents;
+      if (minCents === undefined || minCents > query.maxPrice * 100) {
+        return false;
+      }
+    }
+
+    if (query.soldOut !== undefined && isSoldOut(event) !== query.soldOut) {
+      return false;
+    }
+
+    if (
+      query.tag &&
+      !event.tags?.some((tag) => sameText(tag.name, query.tag!))
+    ) {
+      return false;
+    }
+
+    return !query.q || searchText(event).includes(query.q.toLowerCase());
+  });
+}
+
+// Soonest first; undated events go last
+function compareEvents(a: Event, b: Event): number {
+  if (a.startDate !== b.startDate) {
+    if (!a.startDate) return 1;
+    if (!b.startDate) return -1;
+    return a.startDate < b.startDate ? -1 : 1;
+  }
+  return a.event.localeCompare(b.event);
+}
+
+function loadEvents(options: ApiOptions): Event[] {
+  return currentEvents(loadStore(options.storeFile)).sort(compareEvents);
+}
+
+function listVenues(options: ApiOptions, events: Event[]) {
+  return Object.entries(options.configs).map(([site, config]) => ({
+    site,
+    name: config.venue,
+    url: config.url,
+    aggregator: config.aggregator ?? false,
+    events: events.filter((event) =>
+      (event.sources ?? [event.website]).includes(site)
+    ).length,
+  }));
+}
+
+function route(options: ApiOptions, url: URL): unknown {
+  const params = url.searchParams;
+
+  if (url.pathname === "/events") {
+    const query = parseEventQuery(params);
+    const { items, ...page } = paginate(
+      filterEvents(loadEvents(options), query),
+      parsePaging(params)
+    );
+    return { ...page, events: items };
+  }
+
+  const eventPath = url.pathname.match(/^\/events\/([^/]+)$/);
+  if (eventPath) {
+    let id: string;
+    try {
+      id = decodeURIComponent(eventPath[1]);
+    } catch {
+      throw new HttpError(400, `Malformed event id ${eventPath[1]}`);
+    }
+    const event = loadEvents(options).find((event) => event.id === id);
+    if (!event) throw new HttpError(404, `No event with id ${id}`);
+    return event;
+  }
+
+  if (url.pathname === "/venues") {
+    return { venues: listVenues(options, loadEvents(options)) };
+  }
+
+  if (url.pathname === "/runs") {
+    const { items, ...page } = paginate(
+      loadRunHistory(options.runHistoryFile),
+      parsePaging(params)
+    );
+    return { ...page, runs: items };
+  }
+
+  throw new HttpError(404, `Not found: ${url.pathname}`);
+}
+
+function send(response: http.ServerResponse, status: number, body: unknown) {
+  response.writeHead(status, {
+    "Content-Type": "application/json; charset=utf-8",
+    "Access-Control-Allow-Origin": "*",
+  });
+  response.end(JSON.stringify(body, null, 2));
+}
+
+// Reads the store and run history on every request, so it always serves the
+// latest scrape without a restart
+export function createApiServer(options: ApiOptions): http.Server {
+  return http.createServer((request, response) => {
+    if (request.method !== "GET" && request.method !== "HEAD") {
+      send(response, 405, { error: `Method ${request.method} not allowed` });
+      return;
+    }
+
+    try {
+      const url = new URL(request.url ?? "/", "http://localhost");
+      send(response, 200, route(options, url));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        send(response, error.status, { error: error.message });
+        return;
+      }
+      console.error(`Error serving ${request.url}:`, error);
+      send(response, 500, { error: "Internal server error" });
+    }
+  });
+}
+
+export function startApiServer(
+  options: ApiOptions,
+  port: number = DEFAULT_PORT,
+  host: string = DEFAULT_HOST
+): Promise<http.Server> {
+  const server = createApiServer(options);
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, host, () => {
+      server.off("error", reject);
+      resolve(server);
+    });
+  });
+}
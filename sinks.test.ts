@@ -0,0 +1,182 @@
+import type { Event } from "./main";
+import {
+  atomSink,
+  createSinkContext,
+  csvSink,
+  getSink,
+  icsSink,
+  jsonSink,
+  ndjsonSink,
+  registerSink,
+  rssSink,
+  sinkFormats,
+} from "./sinks";
+
+const context = createSinkContext(new Date("2024-07-01T12:00:00Z"));
+
+const events: Event[] = [
+  {
+    id: "abc123",
+    website: "stateroom",
+    venue: "The State Room",
+    price: "$25",
+    event: "Band A, Band B & Friends",
+    date: "Fri, Jul 5, 2024, 7:00 PM",
+    startDate: "2024-07-05T19:00:00-06:00",
+    ticketLink: "https://tickets.test/band-a?x=1&y=2",
+  },
+  {
+    id: "def456",
+    website: "eccles",
+    venue: "Eccles Theater",
+    price: "SOLD OUT",
+    event: 'The "Big" Show',
+    date: "Sat, Jul 6, 2024 - Sun, Jul 7, 2024",
+    startDate: "2024-07-06",
+    endDate: "2024-07-07",
+    ticketLink: "https://tickets.test/big",
+  },
+];
+
+describe("sinks", () => {
+  test("json pretty-prints the events", () => {
+    expect(JSON.parse(jsonSink.serialize(events, context))).toEqual(events);
+  });
+
+  test("ndjson writes one event per line", () => {
+    const lines = ndjsonSink.serialize(events, context).trimEnd().split("\n");
+    expect(lines.map((line) => JSON.parse(line))).toEqual(events);
+  });
+
+  test("csv quotes fields that need it", () => {
+    const rows = csvSink.serialize(events, context).split("\r\n");
+
+    expect(rows[0]).toMatch(/^id,website,venue,event,date,startDate/);
+    expect(rows[1]).toContain('"Band A, Band B & Friends"');
+    expect(rows[2]).toContain('"The ""Big"" Show"');
+    expect(rows).toHaveLength(4);
+  });
+
+  test("ics writes one VEVENT per dated event", () => {
+    const ics = icsSink.serialize(
+      [...events, { ...events[0], id: "nodate", startDate: undefined }],
+      context
+    );
+    const lines = ics.split("\r\n");
+
+    expect(lines[0]).toBe("BEGIN:VCALENDAR");
+    expect(lines.filter((line) => line === "BEGIN:VEVENT")).toHaveLength(2);
+    expect(lines).toContain("UID:abc123@slc-event-scraper");
+    expect(lines).toContain("DTSTAMP:20240701T120000Z");
+    expect(lines).toContain("DTSTART:20240706T010000Z");
+    expect(lines).toContain("SUMMARY:Band A\\, Band B & Friends");
+    expect(lines).toContain("LOCATION:The State Room");
+    expect(lines).toContain("DTSTART;VALUE=DATE:20240706");
+    expect(lines).toContain("DTEND;VALUE=DATE:20240708");
+    expect(ics).toContain("Price: $25");
+    expect(lines.every((line) => Buffer.byteLength(line) <= 75)).toBe(true);
+  });
+
+  test("ics ends timed events with a UTC date-time", () => {
+    const lines = icsSink
+      .serialize(
+        [
+          { ...events[0], endDate: "2024-07-06" },
+          {
+            ...events[0],
+            id: "timed-end",
+            endDate: "2024-07-05T22:30:00-06:00",
+          },
+        ],
+        context
+      )
+      .split("\r\n");
+
+    expect(lines).toContain("DTEND:20240707T010000Z");
+    expect(lines).toContain("DTEND:20240706T043000Z");
+    expect(lines.some((line) => line.startsWith("DTEND;VALUE=DATE"))).toBe(
+      false
+    );
+  });
+
+  test("ics and csv include the resolved venue's location", () => {
+    const located = {
+      ...events[0],
+      venueId: "the-state-room",
+      address: "638 S State St, Salt Lake City, UT 84111",
+      geo: { latitude: 40.759, longitude: -111.8879 },
+    };
+
+    const ics = icsSink.serialize([located], context).replace(/\r\n /g, "");
+    expect(ics).toContain(
+      "LOCATION:The State Room\\, 638 S State St\\, Salt Lake City\\, UT 84111"
+    );
+    expect(ics).toContain("GEO:40.759;-111.8879");
+
+    const [header, row] = csvSink.serialize([located], context).split("\r\n");
+    expect(header).toMatch(/,venueId,address,latitude,longitude$/);
+    expect(row).toMatch(
+      /,the-state-room,"638 S State St, Salt Lake City, UT 84111",40.759,-111.8879$/
+    );
+  });
+
+  test("ics lists tags as categories", () => {
+    const tagged: Event = {
+      ...events[0],
+      tags: [
+        { name: "rock", confidence: 0.7, source: "rule" },
+        { name: "21+", confidence: 1, source: "override" },
+      ],
+    };
+
+    expect(icsSink.serialize([tagged], context)).toContain(
+      "CATEGORIES:rock,21+"
+    );
+    expect(icsSink.serialize(events, context)).not.toContain("CATEGORIES");
+  });
+
+  test("rss escapes XML and uses stable guids", () => {
+    const rss = rssSink.serialize(events, context);
+
+    expect(rss).toContain('<rss version="2.0">');
+    expect(rss).toContain('<guid isPermaLink="false">abc123</guid>');
+    expect(rss).toContain(
+      "<link>https://tickets.test/band-a?x=1&amp;y=2</link>"
+    );
+    expect(rss).toContain("<title>The &quot;Big&quot; Show</title>");
+    expect(rss.match(/<item>/g)).toHaveLength(2);
+  });
+
+  test("atom writes an entry per event", () => {
+    const atom = atomSink.serialize(events, context);
+
+    expect(atom).toContain('<feed xmlns="http://www.w3.org/2005/Atom">');
+    expect(atom).toContain("<id>urn:slc-event-scraper:def456</id>");
+    expect(atom).toContain("<updated>2024-07-01T12:00:00.000Z</updated>");
+    expect(atom.match(/<entry>/g)).toHaveLength(2);
+  });
+});
+
+describe("sink registry", () => {
+  test("includes the built-in formats", () => {
+    expect(sinkFormats()).toEqual(
+      expect.arrayContaining(["json", "ndjson", "csv", "ics", "rss", "atom"])
+    );
+  });
+
+  test("registers custom sinks", () => {
+    registerSink({
+      format: "titles",
+      extension: "txt",
+      serialize: (events) => events.map((event) => event.event).join("\n"),
+    });
+
+    expect(getSink("titles").serialize(events, context)).toBe(
+      'Band A, Band B & Friends\nThe "Big" Show'
+    );
+  });
+
+  test("rejects unknown formats", () => {
+    expect(() => getSink("pdf")).toThrow(/Unknown output format: pdf/);
+  });
+});
@@ -0,0 +1,313 @@
+import type { Event } from "./main";
+
+export interface SinkContext {
+  generatedAt: Date;
+  title: string;
+  link: string;
+}
+
+export interface Sink {
+  format: string;
+  extension: string;
+  serialize(events: Event[], context: SinkContext): string;
+}
+
+export function createSinkContext(generatedAt: Date = new Date()): SinkContext {
+  return {
+    generatedAt,
+    title: "Salt Lake City events",
+    link: "https://thestateroompresents.com/",
+  };
+}
+
+const PRODUCT_ID = "-//slc-event-scraper//EN";
+
+function eventKey(event: Event): string {
+  return event.id ?? `${event.website}:${event.ticketLink}`;
+}
+
+function describeEvent(event: Event): string {
+  return [
+    event.date,
+    event.venue,
+    event.presenter && `Presented by ${event.presenter}`,
+    event.price && `Price: ${event.price}`,
+    event.ageRestriction,
+    event.lineup?.length && `Lineup: ${event.lineup.join(", ")}`,
+    event.ticketLink && `Tickets: ${event.ticketLink}`,
+    event.description,
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+export const jsonSink: Sink = {
+  format: "json",
+  extension: "json",
+  serialize: (events) => JSON.stringify(events, null, 2),
+};
+
+export const ndjsonSink: Sink = {
+  format: "ndjson",
+  extension: "ndjson",
+  serialize: (events) =>
+    events.map((event) => `${JSON.stringify(event)}\n`).join(""),
+};
+
+const CSV_COLUMNS: [string, (event: Event) => string | number | undefined][] = [
+  ["id", (event) => event.id],
+  ["website", (event) => event.website],
+  ["venue", (event) => event.venue],
+  ["event", (event) => event.event],
+  ["date", (event) => event.date],
+  ["startDate", (event) => event.startDate],
+  ["endDate", (event) => event.endDate],
+  ["doorsTime", (event) => event.doorsTime],
+  ["price", (event) => event.price],
+  ["priceMinCents", (event) => event.priceDetails?.minCents],
+  ["priceMaxCents", (event) => event.priceDetails?.maxCents],
+  ["priceStatus", (event) => event.priceDetails?.status],
+  ["ticketLink", (event) => event.ticketLink],
+  ["ageRestriction", (event) => event.ageRestriction],
+  ["genre", (event) => event.genre],
+  ["lineup", (event) => event.lineup?.join("; ")],
+  ["image", (event) => event.image],
+  ["presenter", (event) => event.presenter],
+  ["headliner", (event) => event.headliner],
+  ["supportingActs", (event) => event.supportingActs?.join("; ")],
+  ["tourName", (event) => event.tourName],
+  ["venueId", (event) => event.venueId],
+  ["address", (event) => event.address],
+  ["latitude", (event) => event.geo?.latitude],
+  ["longitude", (event) => event.geo?.longitude],
+];
+
+function csvField(value: string | number | undefined): string {
+  const text = value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export const csvSink: Sink = {
+  format: "csv",
+  extension: "csv",
+  serialize: (events) =>
+    [
+      CSV_COLUMNS.map(([name]) => name),
+      ...events.map((event) =>
+        CSV_COLUMNS.map(([, value]) => csvField(value(event)))
+      ),
+    ]
+      .map((row) => `${row.join(",")}\r\n`)
+      .join(""),
+};
+
+function icsText(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// RFC 5545 limits content lines to 75 octets; continuations start with a space
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let current = "";
+  for (const char of line) {
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char) > limit) {
+      chunks.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  chunks.push(current);
+  return chunks.join("\r\n ");
+}
+
+function icsUtc(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+function icsDate(isoDate: string): string {
+  return isoDate.slice(0, 10).replace(/-/g, "");
+}
+
+function nextDay(isoDate: string): string {
+  const date = new Date(`${isoDate.slice(0, 10)}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + 1);
+  return date.toISOString().slice(0, 10);
+}
+
+// An end date without a time ends at the start's time of day on that date
+function timedEnd(startDate: string, endDate: string): Date {
+  if (endDate.includes("T")) return new Date(endDate);
+
+  const days =
+    (Date.parse(endDate.slice(0, 10)) - Date.parse(startDate.slice(0, 10))) /
+    (24 * 60 * 60 * 1000);
+  return new Date(Date.parse(startDate) + days * 24 * 60 * 60 * 1000);
+}
+
+function icsEvent(event: Event, stamp: string): string[] {
+  const startDate = event.startDate!;
+  const hasTime = startDate.includes("T");
+
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${eventKey(event)}@slc-event-scraper`,
+    `DTSTAMP:${stamp}`,
+    hasTime
+      ? `DTSTART:${icsUtc(new Date(startDate))}`
+      : `DTSTART;VALUE=DATE:${icsDate(startDate)}`,
+  ];
+
+  // A timed start needs a timed end; all-day end dates are exclusive
+  if (hasTime && event.endDate) {
+    lines.push(`DTEND:${icsUtc(timedEnd(startDate, event.endDate))}`);
+  } else if (!hasTime) {
+    lines.push(
+      `DTEND;VALUE=DATE:${icsDate(nextDay(event.endDate ?? startDate))}`
+    );
+  }
+
+  lines.push(
+    `SUMMARY:${icsText(event.event)}`,
+    `LOCATION:${icsText(
+      event.address ? `${event.venue}, ${event.address}` : event.venue
+    )}`,
+    ...(event.geo ? [`GEO:${event.geo.latitude};${event.geo.longitude}`] : []),
+    ...(event.tags?.length
+      ? [`CATEGORIES:${event.tags.map((tag) => icsText(tag.name)).join(",")}`]
+      : []),
+    ...(event.ticketLink ? [`URL:${event.ticketLink}`] : []),
+    `DESCRIPTION:${icsText(describeEvent(event))}`,
+    "END:VEVENT"
+  );
+  return lines;
+}
+
+// Events without a parsed start date cannot be placed on a calendar
+export const icsSink: Sink = {
+  format: "ics",
+  extension: "ics",
+  serialize: (events, context) => {
+    const stamp = icsUtc(context.generatedAt);
+    const lines = [
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      `PRODID:${PRODUCT_ID}`,
+      "CALSCALE:GREGORIAN",
+      `X-WR-CALNAME:${icsText(context.title)}`,
+      ...events
+        .filter((event) => event.startDate)
+        .flatMap((event) => icsEvent(event, stamp)),
+      "END:VCALENDAR",
+    ];
+    return lines.map(foldLine).join("\r\n") + "\r\n";
+  },
+};
+
+function xml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+export const rssSink: Sink = {
+  format: "rss",
+  extension: "rss",
+  serialize: (events, context) =>
+    [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<rss version="2.0">',
+      "<channel>",
+      `<title>${xml(context.title)}</title>`,
+      `<link>${xml(context.link)}</link>`,
+      `<description>${xml(context.title)}</description>`,
+      `<lastBuildDate>${context.generatedAt.toUTCString()}</lastBuildDate>`,
+      ...events.map((event) =>
+        [
+          "<item>",
+          `<title>${xml(event.event)}</title>`,
+          ...(event.ticketLink
+            ? [`<link>${xml(event.ticketLink)}</link>`]
+            : []),
+          `<guid isPermaLink="false">${xml(eventKey(event))}</guid>`,
+          `<description>${xml(describeEvent(event))}</description>`,
+          "</item>",
+        ].join("\n")
+      ),
+      "</channel>",
+      "</rss>",
+      "",
+    ].join("\n"),
+};
+
+export const atomSink: Sink = {
+  format: "atom",
+  extension: "atom",
+  serialize: (events, context) => {
+    const updated = context.generatedAt.toISOString();
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<feed xmlns="http://www.w3.org/2005/Atom">',
+      `<id>${xml(context.link)}</id>`,
+      `<title>${xml(context.title)}</title>`,
+      `<updated>${updated}</updated>`,
+      `<link href="${xml(context.link)}"/>`,
+      ...events.map((event) =>
+        [
+          "<entry>",
+          `<id>urn:slc-event-scraper:${xml(eventKey(event))}</id>`,
+          `<title>${xml(event.event)}</title>`,
+          `<updated>${updated}</updated>`,
+          ...(event.ticketLink
+            ? [`<link href="${xml(event.ticketLink)}"/>`]
+            : []),
+          `<summary>${xml(describeEvent(event))}</summary>`,
+          "</entry>",
+        ].join("\n")
+      ),
+      "</feed>",
+      "",
+    ].join("\n");
+  },
+};
+
+const sinks: Record<string, Sink> = {};
+
+export function registerSink(sink: Sink) {
+  sinks[sink.format] = sink;
+}
+
+export function getSink(format: string): Sink {
+  const sink = sinks[format];
+  if (!sink) {
+    throw new Error(
+      `Unknown output format: ${format}. Available: ${sinkFormats().join(", ")}`
+    );
+  }
+  return sink;
+}
+
+export function sinkFormats(): string[] {
+  return Object.keys(sinks);
+}
+
+for (const sink of [
+  jsonSink,
+  ndjsonSink,
+  csvSink,
+  icsSink,
+  rssSink,
+  atomSink,
+]) {
+  registerSink(sink);
+}
@@ -0,0 +1,218 @@
+import { generateObject } from "ai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { parseWebsiteConfig } from "./config";
+import { DEFAULT_FIXTURES_DIR } from "./fixtures";
+import {
+  findEventRows,
+  formatPreviewTable,
+  guessVenueName,
+  inferFieldSelectors,
+  proposeSiteConfig,
+  siteKeyFromUrl,
+  writeSiteConfig,
+} from "./siteAuthoring";
+
+jest.mock("ai", () => ({
+  generateObject: jest.fn(),
+}));
+
+const stateRoomHtml = fs.readFileSync(
+  path.join(
+    DEFAULT_FIXTURES_DIR,
+    "stateroom",
+    "thestateroompresents-com-the-state-room.html"
+  ),
+  "utf8"
+);
+
+const listingHtml = `
+  <html><head>
+    <title>Kilby Court | Salt Lake City</title>
+  </head><body>
+    <nav><a href="/">Home</a><a href="/about">About</a><a href="/faq">FAQ</a></nav>
+    <ul class="shows">
+      ${["Band A", "Band B", "Band C", "Band D"]
+        .map(
+          (band, i) => `
+        <li class="show${i === 0 ? " first" : ""}">
+          <h2 class="show-title">${band}</h2>
+          <span class="show-date">Fri, Oct ${i + 3}, 2025</span>
+          <span class="show-price">$${15 + i}</span>
+          <a class="buy" href="/tickets/${i}">Buy tickets</a>
+        </li>`
+        )
+        .join("")}
+    </ul>
+  </body></html>`;
+
+const page = { url: "https://kilbycourt.test/shows", html: listingHtml };
+
+beforeEach(() => {
+  (generateObject as jest.Mock).mockReset();
+  (generateObject as jest.Mock).mockRejectedValue(new Error("offline"));
+});
+
+describe("findEventRows", () => {
+  test("finds the rows of the State Room fixture", () => {
+    expect(findEventRows(stateRoomHtml)).toEqual({
+      eventSectionSelector: "div.mod-dpcalendar-upcoming-custom__events",
+      eventListSelector: "div.d-flex.align-items-center.row",
+      rows: 3,
+      datedRows: 3,
+    });
+  });
+
+  test("ignores state classes and undated repeats", () => {
+    expect(findEventRows(listingHtml)).toMatchObject({
+      eventSectionSelector: "ul.shows",
+      eventListSelector: "li.show",
+      rows: 4,
+    });
+  });
+
+  test("finds nothing without dated rows", () => {
+    expect(findEventRows("<ul><li>a</li><li>b</li><li>c</li></ul>")).toBe(
+      undefined
+    );
+  });
+});
+
+describe("inferFieldSelectors", () => {
+  test("picks a selector for each field", () => {
+    expect(inferFieldSelectors(listingHtml, "li.show")).toEqual({
+      event: "h2.show-title",
+      date: "span.show-date",
+      price: "span.show-price",
+      ticketLink: "a.buy",
+    });
+  });
+
+  test("matches the State Room config's selectors", () => {
+    expect(
+      inferFieldSelectors(stateRoomHtml, "div.d-flex.align-items-center.row")
+    ).toMatchObject({
+      event: "h3.up-title",
+      date: "div.up-date",
+    });
+  });
+});
+
+describe("proposeSiteConfig", () => {
+  test("proposes a valid config and previews its events", async () => {
+    const proposal = await proposeSiteConfig(page);
+
+    expect(proposal).toMatchObject({
+      key: "kilbycourt",
+      selectorSource: "heuristics",
+      validEvents: 4,
+    });
+    expect(
+      parseWebsiteConfig(proposal.config, "kilbycourt.json").errors
+    ).toEqual([]);
+    expect(proposal.config).toMatchObject({
+      url: "https://kilbycourt.test/shows",
+      venue: "Kilby Court",
+      eventListSelector: "li.show",
+      eventSectionSelector: "ul.shows",
+    });
+    expect(proposal.events[0]).toMatchObject({
+      website: "kilbycourt",
+      venue: "Kilby Court",
+      event: "Band A",
+      price: "$15",
+      startDate: "2025-10-03",
+      ticketLink: "https://kilbycourt.test/tickets/0",
+    });
+  });
+
+  test("keeps the LLM's selectors when they do better", async () => {
+    // Plain-text titles and image buttons leave the heuristics guessing
+    const html = listingHtml
+      .replace(/<h2 class="show-title">(.*?)<\/h2>/g, "<p>$1</p>")
+      .replace(/Buy tickets/g, '<img src="/buy.png">');
+    (generateObject as jest.Mock).mockResolvedValue({
+      object: {
+        selectors: {
+          event: "p",
+          date: ".show-date",
+          price: ".show-price",
+          ticketLink: ".buy",
+        },
+      },
+    });
+
+    const proposal = await proposeSiteConfig(
+      { ...page, html },
+      { key: "kilby", venue: "Kilby", fetcher: "http" }
+    );
+
+    expect(proposal.selectorSource).toBe("llm");
+    expect(proposal.config).toMatchObject({
+      venue: "Kilby",
+      fetcher: "http",
+      defaultSelectors: { event: "p" },
+    });
+  });
+
+  test("gives up on pages without a listing", async () => {
+    await expect(
+      proposeSiteConfig({ ...page, html: "<p>Nothing here</p>" })
+    ).rejects.toThrow(/by hand/);
+  });
+});
+
+describe("helpers", () => {
+  test("siteKeyFromUrl", () => {
+    expect(siteKeyFromUrl("https://www.kilbycourt.com/events")).toBe(
+      "kilbycourt"
+    );
+    expect(siteKeyFromUrl("https://tix.urban-lounge.co.uk/")).toBe(
+      "tix-urban-lounge-co"
+    );
+  });
+
+  test("guessVenueName prefers og:site_name", () => {
+    expect(guessVenueName(listingHtml)).toBe("Kilby Court");
+    expect(
+      guessVenueName(
+        '<meta property="og:site_name" content="The Depot"><title>Shows</title>'
+      )
+    ).toBe("The Depot");
+  });
+
+  test("formatPreviewTable truncates long values and rows", async () => {
+    const { events } = await proposeSiteConfig(page);
+    const long = { ...events[0], event: "A".repeat(50) };
+
+    const lines = formatPreviewTable([long, ...events], 2);
+
+    expect(lines[0]).toMatch(/^Event\s+Date\s+Price\s+Venue\s+Tickets$/);
+    expect(lines[2]).toContain(`${"A".repeat(35)}…`);
+    expect(lines).toHaveLength(5);
+    expect(lines[4]).toBe("… and 3 more");
+  });
+
+  test("writeSiteConfig refuses to overwrite or shadow a config", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "sites-"));
+    try {
+      const { config } = await proposeSiteConfig(page);
+
+      const file = writeSiteConfig("kilby", config, dir);
+      expect(JSON.parse(fs.readFileSync(file, "utf8"))).toEqual(config);
+      expect(() => writeSiteConfig("kilby", config, dir)).toThrow(/EEXIST/);
+
+      fs.writeFileSync(
+        path.join(dir, "depot.yml"),
+        "url: https://depot.test\n"
+      );
+      expect(() => writeSiteConfig("depot", config, dir)).toThrow(
+        /EEXIST: .*depot\.yml/
+      );
+      expect(fs.existsSync(path.join(dir, "depot.json"))).toBe(false);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,472 @@
+import * as cheerio from "cheerio";
+import { Element, isTag } from "domhandler";
+import fs from "fs";
+import path from "path";
+import { createBrowserPool } from "./browserPool";
+import {
+  CONFIG_EXTENSIONS,
+  DEFAULT_SITES_DIR,
+  parseWebsiteConfig,
+  WebsiteConfig,
+} from "./config";
+import { parseEventDate } from "./dates";
+import type { Event } from "./event";
+import { extractListingEvents, htmlSource } from "./extraction";
+import { fetchHtml } from "./httpFetcher";
+import type { LlmConfig } from "./llm";
+import { getSelectorsFromLLM, scoreEvents } from "./selectors";
+import { validateEvents } from "./validation";
+
+type Selectors = WebsiteConfig["defaultSelectors"];
+
+// Fewer repeated siblings than this is unlikely to be an events listing
+export const MIN_EVENT_ROWS = 3;
+
+export const PREVIEW_ROWS = 10;
+
+const PRICE_PATTERN = /\$\s?\d|\bfree\b|\bsold out\b|\brsvp\b/i;
+const TICKET_PATTERN = /\b(tickets?|buy|rsvp|register)\b/i;
+const TITLE_CLASS_PATTERN = /title|name|headline|headliner|artist|event/i;
+const VENUE_CLASS_PATTERN = /venue|location|where|room/i;
+// Classes that vary between otherwise identical rows
+const STATE_CLASS_PATTERN = /^(active|odd|even|first|last|selected|hidden)$/i;
+
+function cleanText(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function classNames($: cheerio.CheerioAPI, el: Element): string[] {
+  return ($(el).attr("class") ?? "")
+    .split(/\s+/)
+    .filter(
+      (name) => /^[a-z_-][\w-]*$/i.test(name) && !STATE_CLASS_PATTERN.test(name)
+    );
+}
+
+// tag.class1.class2, or #id when the element has a usable one
+function simpleSelector(
+  $: cheerio.CheerioAPI,
+  el: Element,
+  useId = true
+): string {
+  const id = $(el).attr("id");
+  if (useId && id && /^[a-z][\w-]*$/i.test(id)) return `#${id}`;
+  return [el.tagName.toLowerCase(), ...classNames($, el)].join(".");
+}
+
+// The shortest chain of ancestors that picks out just this element
+function uniqueSelector($: cheerio.CheerioAPI, el: Element): string {
+  let selector = simpleSelector($, el);
+  let current = el;
+  while ($(selector).length > 1 && current.parent && isTag(current.parent)) {
+    current = current.parent;
+    selector = `${simpleSelector($, current)} > ${selector}`;
+  }
+  return selector;
+}
+
+function looksLikeDate(text: string): boolean {
+  return text.length <= 80 && parseEventDate(text) !== undefined;
+}
+
+function hasDate($: cheerio.CheerioAPI, row: Element): boolean {
+  return [row, ...$(row).find("*").toArray()].some((el) =>
+    looksLikeDate(cleanText($(el).text()))
+  );
+}
+
+export interface RowCandidate {
+  eventSectionSelector: string;
+  eventListSelector: string;
+  rows: number;
+  // Rows with something that parses as a date
+  datedRows: number;
+}
+
+// Finds the largest group of look-alike siblings that carry dates and links,
+// which is what an events listing is on nearly every site
+export function findEventRows(html: string): RowCandidate | undefined {
+  const $ = cheerio.load(html);
+  let best: (RowCandidate & { score: number }) | undefined;
+
+  for (const parent of $("body, body *").toArray()) {
+    const groups = new Map<string, Element[]>();
+    for (const child of $(parent).children().toArray()) {
+      const signature = simpleSelector($, child, false);
+      groups.set(signature, [...(groups.get(signature) ?? []), child]);
+    }
+
+    for (const [signature, rows] of groups) {
+      if (rows.length < MIN_EVENT_ROWS) continue;
+      const datedRows = rows.filter((row) => hasDate($, row)).length;
+      const linkedRows = rows.filter(
+        (row) => $(row).is("a[href]") || $(row).find("a[href]").length > 0
+      ).length;
+      if (datedRows < MIN_EVENT_ROWS || linkedRows === 0) continue;
+
+      const score = datedRows + linkedRows / 2;
+      if (best && score <= best.score) continue;
+
+      const eventSectionSelector = uniqueSelector($, parent);
+      const eventListSelector =
+        $(signature).length === rows.length
+          ? signature
+          : `${eventSectionSelector} > ${signature}`;
+      best = {
+        eventSectionSelector,
+        eventListSelector,
+        rows: rows.length,
+        datedRows,
+        score,
+      };
+    }
+  }
+
+  if (!best) return undefined;
+  const { score: _score, ...candidate } = best;
+  return candidate;
+}
+
+interface FieldStats {
+  rows: number;
+  dates: number;
+  prices: number;
+  links: number;
+  ticketLinks: number;
+  titles: number;
+  venues: number;
+}
+
+// Scores every row-relative selector by what its first match in each row
+// holds, and picks the best for each field
+export function inferFieldSelectors(
+  html: string,
+  eventListSelector: string
+): Partial<Selectors> {
+  const $ = cheerio.load(html);
+  const rows = $(eventListSelector).toArray();
+  const stats = new Map<string, FieldStats>();
+
+  for (const row of rows) {
+    const seen = new Set<string>();
+    for (const el of $(row).find("*").toArray()) {
+      const selector = simpleSelector($, el, false);
+      // Only the first match counts, as when scraping
+      if (seen.has(selector)) continue;
+      seen.add(selector);
+
+      const text = cleanText($(el).text());
+      if (!text && !$(el).is("a[href]")) continue;
+
+      const entry = stats.get(selector) ?? {
+        rows: 0,
+        dates: 0,
+        prices: 0,
+        links: 0,
+        ticketLinks: 0,
+        titles: 0,
+        venues: 0,
+      };
+      const classes = classNames($, el).join(" ");
+      const isDate = looksLikeDate(text);
+      const isPrice = PRICE_PATTERN.test(text) && text.length <= 80;
+
+      entry.rows++;
+      if (isDate) entry.dates++;
+      if (isPrice) entry.prices++;
+      if ($(el).is("a[href]")) {
+        entry.links++;
+        if (TICKET_PATTERN.test(`${text} ${classes}`)) entry.ticketLinks++;
+      }
+      if (
+        !isDate &&
+        !isPrice &&
+        text.length >= 2 &&
+        text.length <= 150 &&
+        ($(el).is("h1, h2, h3, h4, h5, h6") ||
+          TITLE_CLASS_PATTERN.test(classes))
+      ) {
+        entry.titles++;
+      }
+      if (text && VENUE_CLASS_PATTERN.test(classes)) entry.venues++;
+      stats.set(selector, entry);
+    }
+  }
+
+  const pick = (score: (entry: FieldStats) => number) => {
+    let best: string | undefined;
+    let bestScore = 0;
+    for (const [selector, entry] of stats) {
+      const value = score(entry);
+      if (value > bestScore) {
+        best = selector;
+        bestScore = value;
+      }
+    }
+    // Has to work for at least half of the rows
+    return bestScore >= rows.length / 2 ? best : undefined;
+  };
+
+  const selectors: Partial<Selectors> = {
+    date: pick((entry) => entry.dates),
+    price: pick((entry) => entry.prices),
+    // Ticket buttons first, then any link
+    ticketLink: pick((entry) => entry.links + entry.ticketLinks / 2),
+    event: pick((entry) => entry.titles),
+    venue: pick((entry) => entry.venues),
+  };
+  // A linked title is the next best thing to a heading
+  selectors.event ??= pick((entry) =>
+    entry.dates || entry.prices ? 0 : entry.links
+  );
+
+  return Object.fromEntries(
+    Object.entries(selectors).filter(([, value]) => value)
+  ) as Partial<Selectors>;
+}
+
+// Fills gaps so the result is a complete selector set; empty selectors
+// match nothing and show up as missing fields in the preview
+function completeSelectors(selectors: Partial<Selectors>): Selectors {
+  return {
+    ...selectors,
+    event: selectors.event ?? "",
+    date: selectors.date ?? "",
+    price: selectors.price ?? "",
+    ticketLink: selectors.ticketLink ?? "",
+  };
+}
+
+// The site's name from og:site_name or the page title
+export function guessVenueName(html: string): string | undefined {
+  const $ = cheerio.load(html);
+  const name =
+    $('meta[property="og:site_name"]').attr("content") ??
+    $("title")
+      .first()
+      .text()
+      .split(/\s+[|–—-]\s+/)[0];
+  return cleanText(name ?? "") || undefined;
+}
+
+// e.g. https://www.kilbycourt.com/events -> "kilbycourt"
+export function siteKeyFromUrl(url: string): string {
+  const { hostname } = new URL(url);
+  const parts = hostname.replace(/^www\./, "").split(".");
+  return (parts.length > 1 ? parts.slice(0, -1) : parts)
+    .join("-")
+    .toLowerCase()
+    .replace(/[^a-z0-9-]+/g, "-");
+}
+
+export interface PageHtml {
+  // After redirects
+  url: string;
+  html: string;
+}
+
+// The page as the chosen fetcher sees it; for the browser, after scripts ran
+export async function loadPageHtml(
+  url: string,
+  fetcher: WebsiteConfig["fetcher"] = "browser"
+): Promise<PageHtml> {
+  if (fetcher === "http") {
+    return { url, html: await fetchHtml(url, { site: siteKeyFromUrl(url) }) };
+  }
+
+  const pool = createBrowserPool();
+  try {
+    const context = await pool.newContext();
+    const page = await context.newPage();
+    await page.goto(url, { waitUntil: "networkidle" });
+    return { url: page.url(), html: await page.content() };
+  } finally {
+    await pool.close();
+  }
+}
+
+export interface SiteProposal {
+  key: string;
+  config: WebsiteConfig;
+  // What the proposed config scraped from the page
+  events: Event[];
+  // Events that would pass validation
+  validEvents: number;
+  selectorSource: "heuristics" | "llm";
+}
+
+export interface ProposeOptions {
+  key?: string;
+  venue?: string;
+  fetcher?: WebsiteConfig["fetcher"];
+  llm?: Partial<LlmConfig>;
+}
+
+async function previewSelectors(
+  page: PageHtml,
+  selectors: Selectors,
+  eventListSelector: string,
+  key: string,
+  venue: string
+) {
+  const events = await extractListingEvents(
+    htmlSource(page.html, page.url),
+    selectors,
+    eventListSelector,
+    key,
+    venue
+  );
+  return { events, validEvents: validateEvents(events).valid.length };
+}
+
+// Proposes a config from the page's repeated rows, asks the LLM for field
+// selectors too, and keeps whichever yields more valid events
+export async function proposeSiteConfig(
+  page: PageHtml,
+  options: ProposeOptions = {}
+): Promise<SiteProposal> {
+  const rows = findEventRows(page.html);
+  if (!rows) {
+    throw new Error(
+      `Found no repeated rows with dates on ${page.url}; the config needs writing by hand`
+    );
+  }
+
+  const key = options.key ?? siteKeyFromUrl(page.url);
+  const venue = options.venue ?? guessVenueName(page.html) ?? key;
+
+  const heuristic = completeSelectors(
+    inferFieldSelectors(page.html, rows.eventListSelector)
+  );
+  const heuristicPreview = await previewSelectors(
+    page,
+    heuristic,
+    rows.eventListSelector,
+    key,
+    venue
+  );
+
+  const $ = cheerio.load(page.html);
+  const suggested = await getSelectorsFromLLM(
+    $(rows.eventSectionSelector).first().html() ?? "",
+    heuristic,
+    options.llm
+  );
+  const llmPreview =
+    suggested === heuristic
+      ? undefined
+      : await previewSelectors(
+          page,
+          suggested,
+          rows.eventListSelector,
+          key,
+          venue
+        );
+
+  const useLlm =
+    llmPreview !== undefined &&
+    (llmPreview.validEvents > heuristicPreview.validEvents ||
+      (llmPreview.validEvents === heuristicPreview.validEvents &&
+        scoreEvents(llmPreview.events) > scoreEvents(heuristicPreview.events)));
+  const preview = useLlm ? llmPreview : heuristicPreview;
+
+  const { config, errors } = parseWebsiteConfig(
+    {
+      url: page.url,
+      venue,
+      eventListSelector: rows.eventListSelector,
+      eventSectionSelector: rows.eventSectionSelector,
+      ...(options.fetcher === "http" ? { fetcher: "http" } : {}),
+      defaultSelectors: useLlm ? suggested : heuristic,
+    },
+    `${key}.json`
+  );
+  if (!config) {
+    throw new Error(
+      `Proposed config is invalid: ${errors
+        .map((error) => `${error.path}: ${error.message}`)
+        .join("; ")}`
+    );
+  }
+
+  return {
+    key,
+    config,
+    events: preview.events,
+    validEvents: preview.validEvents,
+    selectorSource: useLlm ? "llm" : "heuristics",
+  };
+}
+
+function cell(value: string | undefined, width: number): string {
+  const text = value ?? "";
+  return (text.length > width ? `${text.slice(0, width - 1)}…` : text).padEnd(
+    width
+  );
+}
+
+const PREVIEW_COLUMNS: [string, number, (event: Event) => string][] = [
+  ["Event", 36, (event) => event.event],
+  ["Date", 26, (event) => event.date],
+  ["Price", 12, (event) => event.price],
+  ["Venue", 20, (event) => event.venue],
+  ["Tickets", 40, (event) => event.ticketLink],
+];
+
+export function formatPreviewTable(
+  events: Event[],
+  limit: number = PREVIEW_ROWS
+): string[] {
+  const row = (values: string[]) =>
+    values
+      .map((value, i) => cell(value, PREVIEW_COLUMNS[i][1]))
+      .join("  ")
+      .trimEnd();
+
+  const lines = [
+    row(PREVIEW_COLUMNS.map(([title]) => title)),
+    row(PREVIEW_COLUMNS.map(([, width]) => "-".repeat(width))),
+    ...events
+      .slice(0, limit)
+      .map((event) => row(PREVIEW_COLUMNS.map(([, , get]) => get(event)))),
+  ];
+  if (events.length > limit) {
+    lines.push(`… and ${events.length - limit} more`);
+  }
+  return lines;
+}
+
+export function formatProposal(proposal: SiteProposal): string[] {
+  return [
+    `Proposed config for ${proposal.key} (${proposal.selectorSource} selectors):`,
+    JSON.stringify(proposal.config, null, 2),
+    "",
+    `${proposal.events.length} events found, ${proposal.validEvents} valid:`,
+    ...formatPreviewTable(proposal.events),
+  ];
+}
+
+// Refuses to replace an existing config, or to shadow one in another format
+export function writeSiteConfig(
+  key: string,
+  config: WebsiteConfig,
+  dir: string = DEFAULT_SITES_DIR
+): string {
+  const existing = CONFIG_EXTENSIONS.map((extension) =>
+    path.join(dir, `${key}${extension}`)
+  ).find((file) => fs.existsSync(file));
+  if (existing) {
+    const error: NodeJS.ErrnoException = new Error(
+      `EEXIST: ${existing} already exists`
+    );
+    error.code = "EEXIST";
+    throw error;
+  }
+
+  const file = path.join(dir, `${key}.json`);
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(file, `${JSON.stringify(config, null, 2)}\n`, {
+    flag: "wx",
+  });
+  return file;
+}
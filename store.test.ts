@@ -0,0 +1,164 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  createStore,
+  currentEvents,
+  eventId,
+  loadStore,
+  recordRun,
+  saveStore,
+} from "./store";
+import { makeEvent } from "./testEvents";
+
+const baseEvent = makeEvent();
+
+describe("eventId", () => {
+  test("ignores case, punctuation and accents in titles", () => {
+    expect(eventId(makeEvent({ event: "Beyoncé!" }))).toBe(
+      eventId(makeEvent({ event: "  BEYONCE " }))
+    );
+  });
+
+  test("changes with the start date or ticket link", () => {
+    const id = eventId(baseEvent);
+    expect(eventId(makeEvent({ startDate: "2024-07-05" }))).not.toBe(id);
+    expect(eventId(makeEvent({ ticketLink: "https://other.test" }))).not.toBe(
+      id
+    );
+  });
+});
+
+describe("recordRun", () => {
+  const first = new Date("2024-07-01T12:00:00Z");
+  const second = new Date("2024-07-02T12:00:00Z");
+
+  test("reports every event as new on the first run", () => {
+    const store = createStore();
+    const diff = recordRun(store, [baseEvent], {
+      now: first,
+      scrapedSites: ["stateroom"],
+    });
+
+    expect(diff.added).toHaveLength(1);
+    expect(diff.added[0].id).toBe(eventId(baseEvent));
+    expect(Object.values(store.events)[0]).toMatchObject({
+      firstSeen: first.toISOString(),
+      lastSeen: first.toISOString(),
+    });
+  });
+
+  test("detects removed events, price changes and sell-outs", () => {
+    const store = createStore();
+    const bandB = makeEvent({ event: "Band B" });
+    const bandC = makeEvent({ event: "Band C" });
+    recordRun(store, [baseEvent, bandB, bandC], {
+      now: first,
+      scrapedSites: ["stateroom"],
+    });
+
+    const diff = recordRun(
+      store,
+      [
+        makeEvent({ price: "$30" }),
+        makeEvent({
+          event: "Band B",
+          price: "SOLD OUT",
+          priceDetails: {
+            currency: "USD",
+            tiers: [],
+            status: "sold_out",
+            free: false,
+            rsvp: false,
+            raw: "Sold Out",
+          },
+        }),
+      ],
+      { now: second, scrapedSites: ["stateroom"] }
+    );
+
+    expect(diff.added).toEqual([]);
+    expect(diff.priceChanged).toEqual([
+      {
+        event: expect.objectContaining({ price: "$30" }),
+        previousPrice: "$25",
+      },
+    ]);
+    expect(diff.soldOut.map((event) => event.event)).toEqual(["Band B"]);
+    expect(diff.removed.map((event) => event.event)).toEqual(["Band C"]);
+
+    const stored = store.events[eventId(baseEvent)];
+    expect(stored.firstSeen).toBe(first.toISOString());
+    expect(stored.lastSeen).toBe(second.toISOString());
+    expect(currentEvents(store).map((event) => event.event)).toEqual([
+      "Band A",
+      "Band B",
+    ]);
+  });
+
+  test("does not remove events from sites that failed to scrape", () => {
+    const store = createStore();
+    recordRun(store, [baseEvent], { now: first, scrapedSites: ["stateroom"] });
+
+    const diff = recordRun(store, [], { now: second, scrapedSites: [] });
+
+    expect(diff.removed).toEqual([]);
+    expect(currentEvents(store)).toHaveLength(1);
+  });
+
+  test("reports reappearing events as new again", () => {
+    const store = createStore();
+    recordRun(store, [baseEvent], { now: first, scrapedSites: ["stateroom"] });
+    recordRun(store, [], { now: first, scrapedSites: ["stateroom"] });
+
+    const diff = recordRun(store, [baseEvent], {
+      now: second,
+      scrapedSites: ["stateroom"],
+    });
+
+    expect(diff.added).toHaveLength(1);
+    const stored = store.events[eventId(baseEvent)];
+    expect(stored.firstSeen).toBe(first.toISOString());
+    expect(stored.removedAt).toBeUndefined();
+  });
+
+  test("filters current events by site", () => {
+    const store = createStore();
+    recordRun(
+      store,
+      [baseEvent, makeEvent({ website: "eccles", venue: "Eccles Theater" })],
+      {
+        scrapedSites: ["stateroom", "eccles"],
+      }
+    );
+
+    expect(currentEvents(store, ["eccles"])).toHaveLength(1);
+  });
+});
+
+describe("loadStore and saveStore", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "store-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("returns an empty store when the file is missing", () => {
+    expect(loadStore(path.join(dir, "missing.json"))).toEqual(createStore());
+  });
+
+  test("round-trips the store without leaving temporary files", () => {
+    const file = path.join(dir, "nested", "events.json");
+    const store = createStore();
+    recordRun(store, [baseEvent], { scrapedSites: ["stateroom"] });
+
+    saveStore(store, file);
+
+    expect(loadStore(file)).toEqual(store);
+    expect(fs.readdirSync(path.dirname(file))).toEqual(["events.json"]);
+  });
+});
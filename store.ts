@@ -0,0 +1,179 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { writeFileAtomic } from "./files";
+import type { Event } from "./main";
+
+export const DEFAULT_STORE_FILE = path.join(__dirname, "data", "events.json");
+
+const STORE_VERSION = 1;
+
+export interface StoredEvent {
+  id: string;
+  event: Event;
+  firstSeen: string;
+  lastSeen: string;
+  // Set when a successful scrape of the event's site no longer lists it
+  removedAt?: string;
+}
+
+export interface EventStore {
+  version: number;
+  events: Record<string, StoredEvent>;
+}
+
+export interface PriceChange {
+  event: Event;
+  previousPrice: string;
+}
+
+export interface RunDiff {
+  added: Event[];
+  removed: Event[];
+  priceChanged: PriceChange[];
+  soldOut: Event[];
+}
+
+export interface RecordRunOptions {
+  now?: Date;
+  // Sites that scraped successfully; only their missing events count as removed
+  scrapedSites: string[];
+}
+
+export function normalizeTitle(title: string): string {
+  return title
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+// Stable across runs as long as the listing's identity fields don't change
+export function eventId(event: Event): string {
+  const key = [
+    normalizeTitle(event.venue),
+    normalizeTitle(event.event),
+    event.startDate ?? event.date,
+    event.ticketLink,
+  ].join("|");
+  return crypto.createHash("sha1").update(key).digest("hex").slice(0, 16);
+}
+
+export function withEventId(event: Event): Event {
+  return event.id ? event : { ...event, id: eventId(event) };
+}
+
+export function createStore(): EventStore {
+  return { version: STORE_VERSION, events: {} };
+}
+
+export function loadStore(file: string = DEFAULT_STORE_FILE): EventStore {
+  if (!fs.existsSync(file)) return createStore();
+
+  const store = JSON.parse(fs.readFileSync(file, "utf8")) as EventStore;
+  if (store.version !== STORE_VERSION) {
+    throw new Error(
+      `Unsupported event store version ${store.version} in ${file}`
+    );
+  }
+  return store;
+}
+
+export function saveStore(
+  store: EventStore,
+  file: string = DEFAULT_STORE_FILE
+) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  writeFileAtomic(file, JSON.stringify(store, null, 2));
+}
+
+export function isSoldOut(event: Event): boolean {
+  return (
+    event.priceDetails?.status === "sold_out" || event.price === "SOLD OUT"
+  );
+}
+
+export function recordRun(
+  store: EventStore,
+  events: Event[],
+  options: RecordRunOptions
+): RunDiff {
+  const now = (options.now ?? new Date()).toISOString();
+  const diff: RunDiff = {
+    added: [],
+    removed: [],
+    priceChanged: [],
+    soldOut: [],
+  };
+  const seen = new Set<string>();
+
+  for (const scraped of events) {
+    const event = withEventId(scraped);
+    const id = event.id!;
+    if (seen.has(id)) continue;
+    seen.add(id);
+
+    const stored = store.events[id];
+    if (!stored || stored.removedAt) {
+      diff.added.push(event);
+      store.events[id] = {
+        id,
+        event,
+        firstSeen: stored?.firstSeen ?? now,
+        lastSeen: now,
+      };
+      continue;
+    }
+
+    if (isSoldOut(event) && !isSoldOut(stored.event)) {
+      diff.soldOut.push(event);
+    } else if (event.price !== stored.event.price) {
+      diff.priceChanged.push({ event, previousPrice: stored.event.price });
+    }
+
+    store.events[id] = { ...stored, event, lastSeen: now };
+  }
+
+  for (const stored of Object.values(store.events)) {
+    if (
+      !stored.removedAt &&
+      !seen.has(stored.id) &&
+      options.scrapedSites.includes(stored.event.website)
+    ) {
+      stored.removedAt = now;
+      diff.removed.push(stored.event);
+    }
+  }
+
+  return diff;
+}
+
+export function currentEvents(store: EventStore, sites?: string[]): Event[] {
+  return Object.values(store.events)
+    .filter(
+      (stored) =>
+        !stored.removedAt &&
+        (!sites ||
+          (stored.event.sources ?? [stored.event.website]).some((site) =>
+            sites.includes(site)
+          ))
+    )
+    .map((stored) => stored.event);
+}
+
+export function formatRunDiff(diff: RunDiff): string[] {
+  const describe = (event: Event) =>
+    `${event.event} (${event.website}, ${event.date})`;
+
+  return [
+    `New events: ${diff.added.length}, Removed: ${diff.removed.length}, Price changes: ${diff.priceChanged.length}, Sold out: ${diff.soldOut.length}`,
+    ...diff.added.map((event) => `  + ${describe(event)}`),
+    ...diff.removed.map((event) => `  - ${describe(event)}`),
+    ...diff.priceChanged.map(
+      ({ event, previousPrice }) =>
+        `  $ ${describe(event)}: ${previousPrice} -> ${event.price}`
+    ),
+    ...diff.soldOut.map((event) => `  ! ${describe(event)}: SOLD OUT`),
+  ];
+}
@@ -0,0 +1,287 @@
+import type { WebsiteConfig } from "./config";
+import { htmlSource } from "./extraction";
+import { extractWithStrategy } from "./main";
+import {
+  extractStructuredEvents,
+  findSchemaEvents,
+  mergeStructuredEvents,
+  schemaEventToEvent,
+} from "./structuredData";
+
+const pageUrl = "https://venue.test/calendar";
+
+const musicEvent = {
+  "@context": "https://schema.org",
+  "@type": "MusicEvent",
+  name: "Band A &amp; Band B",
+  startDate: "2025-11-09T03:00:00Z",
+  doorTime: "2025-11-08T19:00:00-07:00",
+  location: { "@type": "Place", name: "Kilby Court" },
+  image: "/images/band-a.jpg",
+  offers: [
+    {
+      "@type": "Offer",
+      price: "25",
+      priceCurrency: "USD",
+      url: "https://tickets.test/band-a?utm_source=site",
+      availability: "https://schema.org/InStock",
+    },
+    { "@type": "Offer", price: 30, priceCurrency: "USD" },
+  ],
+};
+
+function jsonLd(data: unknown): string {
+  return `<script type="application/ld+json">${JSON.stringify(data)}</script>`;
+}
+
+describe("findSchemaEvents", () => {
+  test("finds events in graphs and widget data but not their subEvents", () => {
+    const festival = {
+      "@type": "Festival",
+      subEvent: [{ "@type": "Event" }],
+    };
+    const json = [
+      { "@graph": [{ "@type": "Organization" }, musicEvent] },
+      { props: { shows: [{ "@type": ["Event", "Thing"] }, festival] } },
+    ];
+
+    expect(findSchemaEvents(json)).toEqual([
+      musicEvent,
+      { "@type": ["Event", "Thing"] },
+      { "@type": "Festival", subEvent: [{ "@type": "Event" }] },
+    ]);
+  });
+});
+
+describe("schemaEventToEvent", () => {
+  test("maps schema.org fields onto an event", () => {
+    expect(
+      schemaEventToEvent(musicEvent, "venue", "The Venue", pageUrl)
+    ).toEqual({
+      website: "venue",
+      venue: "Kilby Court",
+      event: "Band A & Band B",
+      headliner: "Band A",
+      supportingActs: ["Band B"],
+      price: "$25–$30",
+      priceDetails: expect.objectContaining({
+        minCents: 2500,
+        maxCents: 3000,
+        status: "on_sale",
+      }),
+      date: "Sat, Nov 8, 2025, 8:00 PM",
+      startDate: "2025-11-08T20:00:00-07:00",
+      doorsTime: "2025-11-08T19:00:00-07:00",
+      ticketLink: "https://tickets.test/band-a",
+      image: "https://venue.test/images/band-a.jpg",
+    });
+  });
+
+  test.each([
+    [{ offers: { price: 0 } }, "Free"],
+    [
+      {
+        offers: {
+          price: 40,
+          availability: "https://schema.org/SoldOut",
+        },
+      },
+      "SOLD OUT",
+    ],
+    [{ eventStatus: "https://schema.org/EventCancelled" }, "CANCELLED"],
+    [{ isAccessibleForFree: true }, "Free"],
+  ])("reads the price of %j", (fields, price) => {
+    expect(
+      schemaEventToEvent(
+        { "@type": "Event", name: "Show", ...fields },
+        "venue",
+        "The Venue",
+        pageUrl
+      ).price
+    ).toBe(price);
+  });
+
+  test("leaves missing fields undefined, including the venue", () => {
+    expect(
+      schemaEventToEvent({ "@type": "Event" }, "venue", "The Venue", pageUrl)
+    ).toEqual({ website: "venue" });
+  });
+});
+
+describe("extractStructuredEvents", () => {
+  test("reads JSON-LD and microdata", async () => {
+    const html = `
+      ${jsonLd(musicEvent)}
+      <script type="application/ld+json">{ not json</script>
+      <div itemscope itemtype="https://schema.org/Event">
+        <a itemprop="url" href="/shows/trio"><span itemprop="name">The Trio</span></a>
+        <time itemprop="startDate" datetime="2025-11-14T20:00">Nov 14</time>
+        <div itemprop="location" itemscope itemtype="https://schema.org/Place">
+          <span itemprop="name">The State Room</span>
+        </div>
+        <div itemprop="offers" itemscope itemtype="https://schema.org/Offer">
+          <meta itemprop="price" content="35">
+        </div>
+      </div>`;
+
+    const events = await extractStructuredEvents(
+      htmlSource(html, pageUrl),
+      "venue",
+      "The Venue"
+    );
+
+    expect(events.map((event) => event.event)).toEqual([
+      "Band A & Band B",
+      "The Trio",
+    ]);
+    expect(events[1]).toMatchObject({
+      venue: "The State Room",
+      price: "$35",
+      startDate: "2025-11-14T20:00:00-07:00",
+      ticketLink: "https://venue.test/shows/trio",
+    });
+  });
+});
+
+describe("mergeStructuredEvents", () => {
+  const listing = {
+    website: "venue",
+    venue: "The Venue",
+    price: "$20",
+    event: "KRCL PRESENTS Band A",
+    presenter: "KRCL",
+    date: "Sat, Nov 8, 2025",
+    startDate: "2025-11-08",
+    ticketLink: "https://tickets.test/band-a",
+  };
+  const other = { ...listing, event: "The Trio", ticketLink: "" };
+
+  test("fills only the fields structured data lacks", () => {
+    const structured = {
+      website: "venue",
+      event: "Band A",
+      startDate: "2025-11-08T20:00:00-07:00",
+      date: "Sat, Nov 8, 2025, 8:00 PM",
+      ticketLink: "https://tickets.test/band-a?ref=1",
+      price: "",
+    };
+
+    expect(mergeStructuredEvents([structured], [other, listing])).toEqual([
+      {
+        ...listing,
+        ...structured,
+        price: "$20",
+      },
+      other,
+    ]);
+  });
+});
+
+describe("extractWithStrategy", () => {
+  const config = {
+    url: pageUrl,
+    venue: "The Venue",
+    eventListSelector: ".row",
+    eventSectionSelector: ".rows",
+    defaultSelectors: {
+      venue: ".venue",
+      price: ".price",
+      event: ".title",
+      date: ".date",
+      ticketLink: "a",
+    },
+  } as WebsiteConfig;
+
+  const rows = `
+    <div class="rows">
+      <div class="row">
+        <span class="title">Band A &amp; Band B</span>
+        <span class="date">Nov 8, 2025</span>
+        <a class="price" href="https://tickets.test/band-a">$28</a>
+      </div>
+    </div>`;
+
+  test("skips the selectors when structured data is complete", async () => {
+    const result = await extractWithStrategy(
+      htmlSource(jsonLd(musicEvent), pageUrl),
+      config,
+      "venue"
+    );
+
+    expect(result.selectorSource).toBe("structured");
+    expect(result.events).toHaveLength(1);
+    expect(result.events[0].price).toBe("$25–$30");
+  });
+
+  test("fills gaps from the selectors", async () => {
+    const { offers: _offers, ...withoutOffers } = musicEvent;
+
+    const result = await extractWithStrategy(
+      htmlSource(
+        jsonLd({ ...withoutOffers, url: "https://tickets.test/band-a" }) + rows,
+        pageUrl
+      ),
+      config,
+      "venue"
+    );
+
+    expect(result.selectorSource).toBe("structured");
+    expect(result.events).toEqual([
+      expect.objectContaining({
+        venue: "Kilby Court",
+        price: "$28",
+        startDate: "2025-11-08T20:00:00-07:00",
+      }),
+    ]);
+  });
+
+  test("takes the venue from an aggregator's rows when JSON-LD has no location", async () => {
+    const { location: _location, ...withoutLocation } = musicEvent;
+    const aggregatorRows = rows.replace(
+      '<span class="date">',
+      '<span class="venue">Kilby Court</span><span class="date">'
+    );
+
+    const result = await extractWithStrategy(
+      htmlSource(jsonLd(withoutLocation) + aggregatorRows, pageUrl),
+      { ...config, venue: "SNS Presents" },
+      "snspresents"
+    );
+
+    expect(result.events).toEqual([
+      expect.objectContaining({ venue: "Kilby Court", price: "$25–$30" }),
+    ]);
+  });
+
+  test("falls back to the site's venue when no row matches", async () => {
+    const { location: _location, ...withoutLocation } = musicEvent;
+    const otherRows = rows
+      .replace("Band A &amp; Band B", "The Trio")
+      .replace("/band-a", "/trio");
+
+    const result = await extractWithStrategy(
+      htmlSource(jsonLd(withoutLocation) + otherRows, pageUrl),
+      config,
+      "venue"
+    );
+
+    expect(result.events).toEqual([
+      expect.objectContaining({ event: "Band A & Band B", venue: "The Venue" }),
+      expect.objectContaining({ event: "The Trio", venue: "The Venue" }),
+    ]);
+  });
+
+  test("can be turned off per site", async () => {
+    const result = await extractWithStrategy(
+      htmlSource(jsonLd(musicEvent) + rows, pageUrl),
+      { ...config, structuredData: false },
+      "venue"
+    );
+
+    expect(result.selectorSource).toBe("default");
+    expect(result.events[0]).toMatchObject({
+      venue: "The Venue",
+      price: "$28",
+    });
+  });
+});
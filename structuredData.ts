@@ -0,0 +1,323 @@
+import * as cheerio from "cheerio";
+import type { Element } from "domhandler";
+import { parseIsoEventDate } from "./dates";
+import { buildEvent, Event, RawEventFields, removeSearchParams } from "./event";
+import type { ElementSource, PageSource } from "./extraction";
+
+// A schema.org item, from JSON-LD or converted from microdata
+type SchemaItem = Record<string, unknown>;
+
+// The fields every event needs before the selectors can be skipped
+export const STRUCTURED_REQUIRED_FIELDS = [
+  "event",
+  "venue",
+  "price",
+  "date",
+  "ticketLink",
+] as const;
+
+// schema.org Event and its subtypes, e.g. MusicEvent, TheaterEvent or
+// Festival, with or without the schema.org prefix
+const EVENT_TYPE_PATTERN = /(^|[/:])(\w*Event|Festival|Hackathon)$/;
+
+function isEventType(type: unknown): boolean {
+  const types = Array.isArray(type) ? type : [type];
+  return types.some(
+    (value) => typeof value === "string" && EVENT_TYPE_PATTERN.test(value)
+  );
+}
+
+// Events anywhere in a JSON document: top level, arrays, @graph or nested in
+// a widget's own data. A festival's subEvents are left to the festival.
+export function findSchemaEvents(value: unknown): SchemaItem[] {
+  if (Array.isArray(value)) return value.flatMap(findSchemaEvents);
+  if (!value || typeof value !== "object") return [];
+
+  const item = value as SchemaItem;
+  if (isEventType(item["@type"])) return [item];
+  return Object.values(item).flatMap(findSchemaEvents);
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+const MICRODATA_ATTRIBUTES: Record<string, string> = {
+  a: "href",
+  link: "href",
+  area: "href",
+  img: "src",
+  audio: "src",
+  video: "src",
+  source: "src",
+  iframe: "src",
+  time: "datetime",
+  data: "value",
+  meter: "value",
+  object: "data",
+};
+
+// Reads an itemscope into the same shape as JSON-LD, following the
+// microdata rules for where each property's value lives
+function readMicrodata(
+  $: cheerio.CheerioAPI,
+  scope: cheerio.Cheerio<Element>
+): SchemaItem {
+  const item: SchemaItem = {};
+  const type = scope.attr("itemtype");
+  if (type) item["@type"] = type.trim().split(/\s+/)[0];
+
+  scope
+    .find("[itemprop]")
+    .filter((_, el) => $(el).parent().closest("[itemscope]").is(scope))
+    .each((_, el) => {
+      const element = $(el);
+      const tag = el.tagName?.toLowerCase() ?? "";
+      const value =
+        element.attr("itemscope") !== undefined
+          ? readMicrodata($, element)
+          : element.attr("content") ??
+            (MICRODATA_ATTRIBUTES[tag]
+              ? element.attr(MICRODATA_ATTRIBUTES[tag])
+              : undefined) ??
+            element.text().replace(/\s+/g, " ").trim();
+
+      for (const name of (element.attr("itemprop") ?? "").split(/\s+/)) {
+        if (!name) continue;
+        const existing = item[name];
+        item[name] =
+          existing === undefined
+            ? value
+            : ([] as unknown[]).concat(existing, value);
+      }
+    });
+  return item;
+}
+
+function microdataEvents(html: string): SchemaItem[] {
+  const $ = cheerio.load(html);
+  return (
+    $("[itemscope][itemtype]")
+      .toArray()
+      .filter((el) => isEventType($(el).attr("itemtype")))
+      // Events nested inside another event are read as part of it
+      .filter((el) => $(el).parent().closest("[itemscope]").length === 0)
+      .map((el) => readMicrodata($, $(el)))
+  );
+}
+
+// Every schema.org event on the page, from JSON-LD, JSON blobs embedded by
+// ticketing widgets, and microdata
+export async function readSchemaEvents(
+  source: ElementSource
+): Promise<SchemaItem[]> {
+  const json = [
+    ...(await source.texts('script[type="application/ld+json"]')),
+    ...(await source.texts('script[type="application/json"]')),
+  ].map(parseJson);
+
+  const microdata = (await source.outerHTMLs("body")).flatMap(microdataEvents);
+
+  return [...findSchemaEvents(json), ...microdata];
+}
+
+function first(value: unknown): unknown {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function text(value: unknown): string | undefined {
+  value = first(value);
+  if (typeof value === "number") return String(value);
+  if (typeof value !== "string") return undefined;
+  const cleaned = cheerio.load(value).text().replace(/\s+/g, " ").trim();
+  return cleaned || undefined;
+}
+
+// A Place, or just its name
+function placeName(value: unknown): string | undefined {
+  value = first(value);
+  return value && typeof value === "object"
+    ? text((value as SchemaItem).name)
+    : text(value);
+}
+
+function url(value: unknown, baseUrl: string): string | undefined {
+  value = first(value);
+  const link =
+    value && typeof value === "object"
+      ? text((value as SchemaItem).url ?? (value as SchemaItem)["@id"])
+      : text(value);
+  if (!link) return undefined;
+  try {
+    return new URL(link, baseUrl).toString();
+  } catch {
+    return undefined;
+  }
+}
+
+function offerList(value: unknown): SchemaItem[] {
+  return (Array.isArray(value) ? value : [value]).filter(
+    (offer): offer is SchemaItem => !!offer && typeof offer === "object"
+  );
+}
+
+function dollars(value: unknown): number | undefined {
+  const amount = parseFloat(text(value)?.replace(/[$,\s]/g, "") ?? "");
+  return Number.isFinite(amount) && amount >= 0 ? amount : undefined;
+}
+
+function formatDollars(amount: number): string {
+  return `$${Number.isInteger(amount) ? amount : amount.toFixed(2)}`;
+}
+
+// Offers and status as price text, so parsePrice reads them like a listing's
+// ticket button
+function priceText(item: SchemaItem): string | undefined {
+  const status = text(item.eventStatus) ?? "";
+  if (/EventCancelled$/i.test(status)) return "Cancelled";
+  if (/Event(Postponed|Rescheduled)$/i.test(status)) return "Postponed";
+
+  const offers = offerList(item.offers).filter(
+    (offer) => (text(offer.priceCurrency) ?? "USD").toUpperCase() === "USD"
+  );
+  const amounts = offers.flatMap((offer) =>
+    [offer.price, offer.lowPrice, offer.highPrice]
+      .map(dollars)
+      .filter((amount): amount is number => amount !== undefined)
+  );
+  const soldOut =
+    offers.length > 0 &&
+    offers.every((offer) => /SoldOut$/i.test(text(offer.availability) ?? ""));
+
+  let price: string | undefined;
+  if (amounts.length > 0) {
+    const min = Math.min(...amounts);
+    const max = Math.max(...amounts);
+    price =
+      max === 0
+        ? "Free"
+        : min === max
+        ? formatDollars(min)
+        : `${formatDollars(min)}-${formatDollars(max)}`;
+  } else if (
+    item.isAccessibleForFree === true ||
+    text(item.isAccessibleForFree) === "true"
+  ) {
+    price = "Free";
+  }
+
+  if (soldOut) return price ? `Sold out ${price}` : "Sold out";
+  return price;
+}
+
+// Maps a schema.org Event onto our Event, normalized like a listing row.
+// Fields the item doesn't have are left undefined.
+export function schemaEventToEvent(
+  item: SchemaItem,
+  websiteKey: string,
+  venue: string,
+  pageUrl: string
+): Partial<Event> {
+  const raw: RawEventFields = {};
+  const name = text(item.name);
+  if (name) raw.event = name;
+  const place = placeName(item.location);
+  raw.venue = place ?? "";
+  const price = priceText(item);
+  if (price) raw.price = price;
+  // The offer's link goes to tickets; the event's own url may not
+  const link =
+    url(offerList(item.offers)[0]?.url, pageUrl) ?? url(item.url, pageUrl);
+  if (link) raw.ticketLink = link;
+
+  const event: Partial<Event> = buildEvent(raw, websiteKey, venue);
+  if (!name) delete event.event;
+  // Without a location the listing row names the venue; on an aggregator the
+  // site's own venue would be wrong
+  if (!place) delete event.venue;
+
+  const startDate = text(item.startDate);
+  const dates =
+    startDate &&
+    parseIsoEventDate(startDate, text(item.endDate), text(item.doorTime));
+  if (dates) {
+    event.date = dates.display;
+    event.startDate = dates.startDate;
+    if (dates.endDate) event.endDate = dates.endDate;
+    if (dates.doorsTime) event.doorsTime = dates.doorsTime;
+  }
+
+  const image = url(item.image, pageUrl);
+  if (image) event.image = image;
+  const description = text(item.description);
+  if (description) event.description = description;
+
+  return event;
+}
+
+export async function extractStructuredEvents(
+  source: PageSource,
+  websiteKey: string,
+  venue: string
+): Promise<Partial<Event>[]> {
+  return (await readSchemaEvents(source)).map((item) =>
+    schemaEventToEvent(item, websiteKey, venue, source.url())
+  );
+}
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === "";
+}
+
+export function isCompleteEvent(event: Partial<Event>): event is Event {
+  return STRUCTURED_REQUIRED_FIELDS.every((field) => !isMissing(event[field]));
+}
+
+function titleKey(event: Partial<Event>): string {
+  return `${(event.event ?? "").toLowerCase().replace(/[^a-z0-9]+/g, "")}|${(
+    event.startDate ?? ""
+  ).slice(0, 10)}`;
+}
+
+function findListing(
+  event: Partial<Event>,
+  listings: Event[]
+): Event | undefined {
+  const link = event.ticketLink && removeSearchParams(event.ticketLink);
+  return (
+    (link && listings.find((listing) => listing.ticketLink === link)) ||
+    (event.event
+      ? listings.find((listing) => titleKey(listing) === titleKey(event))
+      : undefined)
+  );
+}
+
+// Structured data wins field by field; the selector-scraped listing fills
+// only what it lacks, and the site's venue what neither has. Listings with
+// no structured counterpart are kept.
+export function mergeStructuredEvents(
+  structured: Partial<Event>[],
+  listings: Event[],
+  venue: string = ""
+): Event[] {
+  const used = new Set<Event>();
+  const merged = structured.map((event) => {
+    const listing = findListing(
+      event,
+      listings.filter((candidate) => !used.has(candidate))
+    );
+    if (listing) used.add(listing);
+
+    const result: Partial<Event> = { venue, ...listing };
+    for (const [key, value] of Object.entries(event)) {
+      if (!isMissing(value)) (result as Record<string, unknown>)[key] = value;
+    }
+    return result as Event;
+  });
+
+  return [...merged, ...listings.filter((listing) => !used.has(listing))];
+}
@@ -0,0 +1,275 @@
+import { generateObject } from "ai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { Event } from "./main";
+import { resolveLlmConfig } from "./llm";
+import { createStore, eventId, recordRun } from "./store";
+import {
+  applyTagOverride,
+  classifyEvents,
+  loadTagOverrides,
+  mergeTags,
+  ruleTags,
+  llmTaggingVersion,
+  Tag,
+  tagEvents,
+} from "./tags";
+import { makeEvent } from "./testEvents";
+
+jest.mock("ai", () => ({
+  generateObject: jest.fn(),
+}));
+
+function names(tags: Tag[] = []): string[] {
+  return tags.map((tag) => tag.name);
+}
+
+beforeEach(() => {
+  (generateObject as jest.Mock).mockReset();
+  jest.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("ruleTags", () => {
+  test.each<[Partial<Event>, string[]]>([
+    [{ event: "Jim Gaffigan: Stand-Up Tour" }, ["comedy"]],
+    [{ event: "Band A", genre: "Punk Rock" }, ["punk", "rock"]],
+    [{ event: "Band A", ageRestriction: "21+ with valid ID" }, ["21+"]],
+    [{ event: "Band A (All Ages)" }, ["all ages"]],
+    [{ event: "Disney Jr. Live", presenter: "Family Fun Series" }, ["family"]],
+    [{ event: "Band A", tourName: "The Hip-Hop Forever Tour" }, ["hip-hop"]],
+    [{ event: "Rocky Votolato" }, []],
+  ])("tags %j", (fields, expected) => {
+    expect(names(ruleTags(makeEvent(fields))).sort()).toEqual(
+      [...expected].sort()
+    );
+  });
+
+  test("records the rule's confidence", () => {
+    expect(ruleTags(makeEvent({ event: "Comedy Night" }))).toEqual([
+      { name: "comedy", confidence: 0.9, source: "rule" },
+    ]);
+  });
+});
+
+describe("mergeTags", () => {
+  test("keeps the most confident tag of each name", () => {
+    expect(
+      mergeTags(
+        [{ name: "rock", confidence: 0.7, source: "rule" }],
+        [
+          { name: "rock", confidence: 0.9, source: "llm" },
+          { name: "folk", confidence: 0.4, source: "llm" },
+        ]
+      )
+    ).toEqual([
+      { name: "rock", confidence: 0.9, source: "llm" },
+      { name: "folk", confidence: 0.4, source: "llm" },
+    ]);
+  });
+});
+
+describe("applyTagOverride", () => {
+  const tags: Tag[] = [
+    { name: "rock", confidence: 0.7, source: "rule" },
+    { name: "folk", confidence: 0.6, source: "rule" },
+  ];
+
+  test("replaces every tag with a list", () => {
+    expect(applyTagOverride(tags, ["Comedy"])).toEqual([
+      { name: "comedy", confidence: 1, source: "override" },
+    ]);
+  });
+
+  test("adds and removes tags", () => {
+    expect(applyTagOverride(tags, { add: ["21+"], remove: ["folk"] })).toEqual([
+      { name: "21+", confidence: 1, source: "override" },
+      { name: "rock", confidence: 0.7, source: "rule" },
+    ]);
+  });
+});
+
+describe("classifyEvents", () => {
+  test("keeps known tags and clamps confidence", async () => {
+    (generateObject as jest.Mock).mockResolvedValue({
+      object: {
+        events: [
+          {
+            index: 1,
+            tags: [
+              { name: " Rock ", confidence: 1.4 },
+              { name: "yacht rock", confidence: 0.9 },
+            ],
+          },
+          { index: 7, tags: [{ name: "jazz", confidence: 0.8 }] },
+        ],
+      },
+    });
+
+    const tags = await classifyEvents([makeEvent(), makeEvent()], {}, 2);
+
+    expect(tags).toEqual([
+      [],
+      [{ name: "rock", confidence: 1, source: "llm" }],
+    ]);
+    expect((generateObject as jest.Mock).mock.calls[0][0].prompt).toContain(
+      "1. Band A | at The State Room"
+    );
+  });
+
+  test("leaves failed batches untagged", async () => {
+    (generateObject as jest.Mock)
+      .mockRejectedValueOnce(new Error("offline"))
+      .mockResolvedValueOnce({
+        object: {
+          events: [{ index: 0, tags: [{ name: "jazz", confidence: 0.8 }] }],
+        },
+      });
+
+    const tags = await classifyEvents([makeEvent(), makeEvent()], {}, 1);
+
+    expect(tags.map(names)).toEqual([[], ["jazz"]]);
+  });
+});
+
+describe("tagEvents", () => {
+  const comedy = makeEvent({ event: "Comedy Night" });
+  const band = makeEvent({
+    event: "Band B",
+    ticketLink: "https://tickets.test/band-b",
+  });
+
+  test("tags with rules and overrides without the LLM", async () => {
+    const tagged = await tagEvents([comedy, band], {
+      overrides: { [eventId(band)]: { add: ["21+"] } },
+    });
+
+    expect(names(tagged[0].tags)).toEqual(["comedy"]);
+    expect(tagged[1].tags).toEqual([
+      { name: "21+", confidence: 1, source: "override" },
+    ]);
+    expect(generateObject).not.toHaveBeenCalled();
+  });
+
+  test("drops stale tags from events that no longer match", async () => {
+    const [tagged] = await tagEvents([
+      { ...band, tags: [{ name: "rock", confidence: 0.7, source: "rule" }] },
+    ]);
+
+    expect(tagged).toEqual(band);
+  });
+
+  const version = llmTaggingVersion(resolveLlmConfig());
+
+  test("reuses LLM tags from the store", async () => {
+    const store = createStore();
+    recordRun(
+      store,
+      [
+        {
+          ...band,
+          tags: [{ name: "rock", confidence: 0.8, source: "llm" }],
+          taggedBy: version,
+        },
+      ],
+      { scrapedSites: ["stateroom"] }
+    );
+    (generateObject as jest.Mock).mockResolvedValue({
+      object: {
+        events: [{ index: 0, tags: [{ name: "comedy", confidence: 0.95 }] }],
+      },
+    });
+
+    const tagged = await tagEvents([comedy, band], { classify: true, store });
+
+    expect(tagged.map((event) => event.tags)).toEqual([
+      [{ name: "comedy", confidence: 0.95, source: "llm" }],
+      [{ name: "rock", confidence: 0.8, source: "llm" }],
+    ]);
+    expect(generateObject).toHaveBeenCalledTimes(1);
+    expect((generateObject as jest.Mock).mock.calls[0][0].prompt).not.toContain(
+      "Band B"
+    );
+  });
+  test("doesn't ask again about events the LLM gave no tags", async () => {
+    (generateObject as jest.Mock).mockResolvedValue({
+      object: { events: [] },
+    });
+    const store = createStore();
+
+    const [first] = await tagEvents([band], { classify: true, store });
+    recordRun(store, [first], { scrapedSites: ["stateroom"] });
+    const [second] = await tagEvents([band], { classify: true, store });
+
+    expect(first).toEqual({ ...band, taggedBy: version });
+    expect(second).toEqual(first);
+    expect(generateObject).toHaveBeenCalledTimes(1);
+  });
+
+  test("tags again when the model or prompt changes", async () => {
+    (generateObject as jest.Mock).mockResolvedValue({
+      object: { events: [] },
+    });
+    const store = createStore();
+    recordRun(store, [{ ...band, taggedBy: version }], {
+      scrapedSites: ["stateroom"],
+    });
+
+    const [tagged] = await tagEvents([band], {
+      classify: true,
+      llm: { model: "other-model" },
+      store,
+    });
+
+    expect(generateObject).toHaveBeenCalledTimes(1);
+    expect(tagged.taggedBy).toBe(
+      llmTaggingVersion(resolveLlmConfig({ model: "other-model" }))
+    );
+  });
+
+  test("leaves events of failed batches to be tagged next time", async () => {
+    (generateObject as jest.Mock).mockRejectedValue(new Error("offline"));
+
+    const [tagged] = await tagEvents([band], { classify: true });
+
+    expect(tagged).toEqual(band);
+  });
+});
+
+describe("loadTagOverrides", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "tags-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test("treats a missing file as no overrides", () => {
+    expect(loadTagOverrides(path.join(tempDir, "none.json"))).toEqual({});
+  });
+
+  test("reads lists and add/remove edits", () => {
+    const file = path.join(tempDir, "tags.json");
+    const overrides = {
+      abc: ["comedy"],
+      def: { add: ["family"], remove: ["21+"] },
+    };
+    fs.writeFileSync(file, JSON.stringify(overrides));
+
+    expect(loadTagOverrides(file)).toEqual(overrides);
+  });
+
+  test("rejects invalid entries", () => {
+    const file = path.join(tempDir, "tags.json");
+    fs.writeFileSync(file, JSON.stringify({ abc: "comedy" }));
+
+    expect(() => loadTagOverrides(file)).toThrow(/Invalid tag overrides/);
+  });
+});
@@ -0,0 +1,342 @@
+import { generateObject } from "ai";
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import type { Event } from "./event";
+import {
+  buildTaggingPrompt,
+  createLlmModel,
+  LlmConfig,
+  resolveLlmConfig,
+} from "./llm";
+import { eventId, EventStore } from "./store";
+
+// Hand-made corrections keyed by event ID; lives with the rest of the local data
+export const DEFAULT_TAG_OVERRIDES_FILE = path.join(
+  __dirname,
+  "data",
+  "tag-overrides.json"
+);
+
+// Events sent to the model per request
+export const DEFAULT_TAG_BATCH_SIZE = 20;
+
+export const TagSchema = z.object({
+  // Lowercase, e.g. "comedy" or "21+"
+  name: z.string().min(1),
+  confidence: z.number().min(0).max(1),
+  source: z.enum(["rule", "llm", "override"]),
+});
+
+export type Tag = z.infer<typeof TagSchema>;
+
+export interface TagRule {
+  tag: string;
+  pattern: RegExp;
+  confidence: number;
+}
+
+// Matched against the title (which includes any subtitle), presenter, tour
+// name and whatever genre or age limit the event's page gave
+export const TAG_RULES: TagRule[] = [
+  {
+    tag: "comedy",
+    pattern: /\b(comedy|comedian|comic|stand[- ]?up|improv)\b/i,
+    confidence: 0.9,
+  },
+  {
+    tag: "rock",
+    pattern: /\b(rock|rock ?n'? ?roll|grunge)\b/i,
+    confidence: 0.7,
+  },
+  { tag: "metal", pattern: /\b(\w*metal|metalcore)\b/i, confidence: 0.8 },
+  { tag: "punk", pattern: /\b(\w*punk|hardcore|emo)\b/i, confidence: 0.7 },
+  { tag: "hip-hop", pattern: /\b(hip[- ]?hop|rap|rapper)\b/i, confidence: 0.8 },
+  {
+    tag: "electronic",
+    pattern:
+      /\b(edm|electronic|techno|dubstep|drum (and|&|n) bass|dj set|rave)\b/i,
+    confidence: 0.7,
+  },
+  {
+    tag: "country",
+    pattern: /\b(country|bluegrass|americana|honky[- ]tonk)\b/i,
+    confidence: 0.7,
+  },
+  {
+    tag: "folk",
+    pattern: /\b(folk|singer[- ]songwriter|acoustic)\b/i,
+    confidence: 0.6,
+  },
+  { tag: "jazz", pattern: /\b(jazz|big band)\b/i, confidence: 0.8 },
+  { tag: "blues", pattern: /\bblues\b/i, confidence: 0.8 },
+  { tag: "soul", pattern: /\b(soul|funk|r&b|rnb|motown)\b/i, confidence: 0.6 },
+  { tag: "reggae", pattern: /\b(reggae|ska|dub)\b/i, confidence: 0.8 },
+  {
+    tag: "latin",
+    pattern: /\b(latin[oax]?|cumbia|reggaeton|salsa|banda|mariachi)\b/i,
+    confidence: 0.7,
+  },
+  {
+    tag: "classical",
+    pattern:
+      /\b(symphony|orchestra|philharmonic|classical|chamber music|opera)\b/i,
+    confidence: 0.8,
+  },
+  {
+    tag: "theater",
+    pattern: /\b(theat(er|re)|musical|broadway|ballet|cabaret)\b/i,
+    confidence: 0.7,
+  },
+  { tag: "tribute", pattern: /\b(tribute|cover band)\b/i, confidence: 0.8 },
+  { tag: "dance", pattern: /\b(dance party|disco)\b/i, confidence: 0.7 },
+  {
+    tag: "family",
+    pattern: /\b(family|kids?|children'?s?)\b/i,
+    confidence: 0.8,
+  },
+  { tag: "festival", pattern: /\b(fest|festival)\b/i, confidence: 0.8 },
+  {
+    tag: "21+",
+    pattern: /(\b21\s*\+|\b21 (and|&) (over|up|older)\b|\bages? 21\b)/i,
+    confidence: 0.95,
+  },
+  {
+    tag: "18+",
+    pattern: /(\b18\s*\+|\b18 (and|&) (over|up|older)\b|\bages? 18\b)/i,
+    confidence: 0.95,
+  },
+  { tag: "all ages", pattern: /\ball[- ]ages\b/i, confidence: 0.95 },
+];
+
+// Every tag the rules can give, which is also what the model chooses from
+export const TAG_NAMES = [...new Set(TAG_RULES.map((rule) => rule.tag))];
+
+// Changes with the model, the prompt or the tag list, so stored LLM tags from
+// an older setup are redone
+export function llmTaggingVersion(llm: LlmConfig): string {
+  const hash = crypto
+    .createHash("sha1")
+    .update(JSON.stringify([llm.taggingPromptTemplate, TAG_NAMES]))
+    .digest("hex")
+    .slice(0, 8);
+  return `${llm.model}@${hash}`;
+}
+
+function taggedText(event: Event): string {
+  return [
+    event.event,
+    event.presenter,
+    event.tourName,
+    event.genre,
+    event.ageRestriction,
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+export function ruleTags(event: Event, rules: TagRule[] = TAG_RULES): Tag[] {
+  const text = taggedText(event);
+  return mergeTags(
+    rules
+      .filter((rule) => rule.pattern.test(text))
+      .map((rule) => ({
+        name: rule.tag,
+        confidence: rule.confidence,
+        source: "rule" as const,
+      }))
+  );
+}
+
+// One tag per name, keeping the most confident; most confident first
+export function mergeTags(...lists: Tag[][]): Tag[] {
+  const byName = new Map<string, Tag>();
+  for (const tag of lists.flat()) {
+    const existing = byName.get(tag.name);
+    if (!existing || tag.confidence > existing.confidence) {
+      byName.set(tag.name, tag);
+    }
+  }
+  return [...byName.values()].sort(
+    (a, b) => b.confidence - a.confidence || a.name.localeCompare(b.name)
+  );
+}
+
+export const TagOverrideSchema = z.union([
+  // Replaces every tag the event would otherwise get
+  z.array(z.string().min(1)),
+  z.object({
+    add: z.array(z.string().min(1)).optional(),
+    remove: z.array(z.string().min(1)).optional(),
+  }),
+]);
+
+export type TagOverride = z.infer<typeof TagOverrideSchema>;
+
+export const TagOverridesSchema = z.record(TagOverrideSchema);
+
+export type TagOverrides = z.infer<typeof TagOverridesSchema>;
+
+export function loadTagOverrides(
+  file: string = DEFAULT_TAG_OVERRIDES_FILE
+): TagOverrides {
+  if (!fs.existsSync(file)) return {};
+
+  const result = TagOverridesSchema.safeParse(
+    JSON.parse(fs.readFileSync(file, "utf8"))
+  );
+  if (!result.success) {
+    const issues = result.error.issues.map(
+      (issue) => `${issue.path.join(".")}: ${issue.message}`
+    );
+    throw new Error(`Invalid tag overrides ${file}: ${issues.join("; ")}`);
+  }
+  return result.data;
+}
+
+function overrideTag(name: string): Tag {
+  return { name: name.toLowerCase(), confidence: 1, source: "override" };
+}
+
+export function applyTagOverride(tags: Tag[], override?: TagOverride): Tag[] {
+  if (!override) return tags;
+  if (Array.isArray(override)) return mergeTags(override.map(overrideTag));
+
+  const removed = new Set(override.remove?.map((name) => name.toLowerCase()));
+  return mergeTags(
+    tags.filter((tag) => !removed.has(tag.name)),
+    (override.add ?? []).map(overrideTag)
+  );
+}
+
+const ClassifiedEventsSchema = z.object({
+  events: z.array(
+    z.object({
+      index: z.number().int(),
+      tags: z.array(z.object({ name: z.string(), confidence: z.number() })),
+    })
+  ),
+});
+
+function describeForTagging(event: Event, index: number): string {
+  return [
+    `${index}. ${event.event}`,
+    event.presenter && `presented by ${event.presenter}`,
+    event.genre && `genre: ${event.genre}`,
+    event.ageRestriction,
+    `at ${event.venue}`,
+  ]
+    .filter(Boolean)
+    .join(" | ");
+}
+
+// Asks the model to tag events in batches; events in batches that fail are
+// left undefined. Tags outside TAG_NAMES are dropped.
+export async function classifyEvents(
+  events: Event[],
+  llmOverrides: Partial<LlmConfig> = {},
+  batchSize: number = DEFAULT_TAG_BATCH_SIZE
+): Promise<(Tag[] | undefined)[]> {
+  const classified: (Tag[] | undefined)[] = events.map(() => undefined);
+  if (events.length === 0) return classified;
+
+  const llm = resolveLlmConfig(llmOverrides);
+  const model = createLlmModel(llm);
+  const known = new Set(TAG_NAMES);
+
+  for (let start = 0; start < events.length; start += batchSize) {
+    const batch = events.slice(start, start + batchSize);
+    try {
+      const { object } = await generateObject({
+        model,
+        schema: ClassifiedEventsSchema,
+        prompt: buildTaggingPrompt(
+          batch.map(describeForTagging),
+          TAG_NAMES,
+          llm.taggingPromptTemplate
+        ),
+        temperature: llm.temperature,
+        abortSignal: AbortSignal.timeout(llm.timeoutMs),
+      });
+
+      batch.forEach((_, i) => (classified[start + i] = []));
+      for (const result of object.events) {
+        if (result.index < 0 || result.index >= batch.length) continue;
+        classified[start + result.index] = mergeTags(
+          result.tags
+            .map((tag) => ({ ...tag, name: tag.name.trim().toLowerCase() }))
+            .filter((tag) => known.has(tag.name))
+            .map((tag) => ({
+              name: tag.name,
+              confidence: Math.min(1, Math.max(0, tag.confidence)),
+              source: "llm" as const,
+            }))
+        );
+      }
+    } catch (error) {
+      console.warn(
+        `LLM tagging failed for events ${start + 1}-${start + batch.length}:`,
+        error
+      );
+    }
+  }
+  return classified;
+}
+
+export interface TagOptions {
+  // Has the LLM tag events as well as the keyword rules
+  classify?: boolean;
+  llm?: Partial<LlmConfig>;
+  overrides?: TagOverrides;
+  // Events the LLM tagged in an earlier run reuse the stored tags
+  store?: EventStore;
+}
+
+// The LLM tags stored for the event, empty if the model gave none; undefined
+// if it hasn't been tagged with this model and prompt
+function storedLlmTags(
+  event: Event,
+  store: EventStore | undefined,
+  version: string
+): Tag[] | undefined {
+  const stored = store?.events[event.id ?? eventId(event)]?.event;
+  if (stored?.taggedBy !== version) return undefined;
+  return (stored.tags ?? []).filter((tag) => tag.source === "llm");
+}
+
+// Replaces each event's tags with fresh rule tags, LLM tags if asked for, and
+// any override for the event's ID, which always wins
+export async function tagEvents(
+  events: Event[],
+  options: TagOptions = {}
+): Promise<Event[]> {
+  const version = options.classify
+    ? llmTaggingVersion(resolveLlmConfig(options.llm))
+    : undefined;
+  const llmTags = events.map((event) =>
+    version ? storedLlmTags(event, options.store, version) : undefined
+  );
+
+  const unclassified = llmTags.flatMap((tags, i) => (tags ? [] : [i]));
+  if (version && unclassified.length > 0) {
+    const classified = await classifyEvents(
+      unclassified.map((i) => events[i]),
+      options.llm
+    );
+    unclassified.forEach((i, j) => (llmTags[i] = classified[j]));
+  }
+
+  return events.map((event, i) => {
+    const tags = applyTagOverride(
+      mergeTags(ruleTags(event), llmTags[i] ?? []),
+      options.overrides?.[event.id ?? eventId(event)]
+    );
+    const { tags: _previous, taggedBy: _version, ...untagged } = event;
+    return {
+      ...untagged,
+      ...(tags.length > 0 ? { tags } : {}),
+      ...(version && llmTags[i] ? { taggedBy: version } : {}),
+    };
+  });
+}
@@ -0,0 +1,15 @@
+import type { Event } from "./event";
+
+// Shared by the tests; a State Room listing unless overridden
+export function makeEvent(overrides: Partial<Event> = {}): Event {
+  return {
+    website: "stateroom",
+    venue: "The State Room",
+    price: "$25",
+    event: "Band A",
+    date: "Thu, Jul 4, 2024",
+    startDate: "2024-07-04",
+    ticketLink: "https://tickets.test/band-a",
+    ...overrides,
+  };
+}
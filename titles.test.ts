@@ -0,0 +1,109 @@
+import { combineEventTitle, parseEventTitle, ParsedTitle } from "./titles";
+
+describe("parseEventTitle", () => {
+  test.each<[string, ParsedTitle]>([
+    ["Band A", { headliner: "Band A", supportingActs: [] }],
+    [
+      "KRCL PRESENTS Band A with Band B, Band C",
+      {
+        presenter: "KRCL",
+        headliner: "Band A",
+        supportingActs: ["Band B", "Band C"],
+      },
+    ],
+    [
+      "Band A w/ Band B & Band C",
+      { headliner: "Band A", supportingActs: ["Band B", "Band C"] },
+    ],
+    ["Band A w/Band B", { headliner: "Band A", supportingActs: ["Band B"] }],
+    [
+      "Songwriters in the Round featuring Singer C, Singer D",
+      {
+        headliner: "Songwriters in the Round",
+        supportingActs: ["Singer C", "Singer D"],
+      },
+    ],
+    ["An Evening With Singer E", { headliner: "Singer E", supportingActs: [] }],
+    ["Band A & Band B", { headliner: "Band A", supportingActs: ["Band B"] }],
+    [
+      "Simon & Garfunkel",
+      { headliner: "Simon & Garfunkel", supportingActs: [] },
+    ],
+    [
+      "Tom Petty and the Heartbreakers",
+      { headliner: "Tom Petty and the Heartbreakers", supportingActs: [] },
+    ],
+    [
+      "An Evening With Lyle Lovett & His Large Band",
+      { headliner: "Lyle Lovett & His Large Band", supportingActs: [] },
+    ],
+    [
+      "Band A: The Big Tour with special guest Band B",
+      {
+        headliner: "Band A",
+        supportingActs: ["Band B"],
+        tourName: "The Big Tour",
+      },
+    ],
+    [
+      "Band A - Summer Tour 2025",
+      { headliner: "Band A", supportingActs: [], tourName: "Summer Tour 2025" },
+    ],
+    [
+      "Band A (The Big Tour) with Band B",
+      {
+        headliner: "Band A",
+        supportingActs: ["Band B"],
+        tourName: "The Big Tour",
+      },
+    ],
+  ])("parses %j", (title, expected) => {
+    expect(parseEventTitle({ title })).toEqual(expected);
+  });
+
+  test("takes the presenter from the pretitle", () => {
+    expect(
+      parseEventTitle({
+        pretitle: "KRCL 90.9FM Presents",
+        title: "Band A",
+        subtitle: "with Band B",
+      })
+    ).toEqual({
+      presenter: "KRCL 90.9FM",
+      headliner: "Band A",
+      supportingActs: ["Band B"],
+    });
+  });
+
+  test("ignores pretitles that only name the venue", () => {
+    expect(
+      parseEventTitle({ pretitle: "The State Room", title: "Band A" })
+    ).toEqual({ headliner: "Band A", supportingActs: [] });
+  });
+
+  test("reads a tour name from the subtitle", () => {
+    expect(
+      parseEventTitle({ title: "Band A", subtitle: "The Big Tour" })
+    ).toEqual({
+      headliner: "Band A",
+      supportingActs: [],
+      tourName: "The Big Tour",
+    });
+  });
+
+  test("handles a missing title", () => {
+    expect(parseEventTitle({})).toEqual({ supportingActs: [] });
+  });
+});
+
+describe("combineEventTitle", () => {
+  test("joins the uppercased pretitle, title and subtitle", () => {
+    expect(
+      combineEventTitle({
+        pretitle: "KRCL presents",
+        title: "Band A",
+        subtitle: "with Band B",
+      })
+    ).toBe("KRCL PRESENTS Band A with Band B");
+  });
+});
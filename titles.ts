@@ -0,0 +1,126 @@
+export interface TitleParts {
+  pretitle?: string;
+  title?: string;
+  subtitle?: string;
+}
+
+export interface ParsedTitle {
+  presenter?: string;
+  headliner?: string;
+  supportingActs: string[];
+  tourName?: string;
+}
+
+// "KRCL presents" above the title, or "KRCL Presents: Band A" in it
+const PRESENTER_ONLY = /^(.+?)\s+presents?\s*:?$/i;
+const PRESENTER_PREFIX = /^(.+?)\s+presents?\s*:?\s+(.+)$/i;
+
+const EVENING_WITH = /^an?\s+(?:evening|night)\s+with\s+/i;
+
+// Everything after the first of these is a supporting act
+const SUPPORT_SEPARATOR =
+  /\s+(?:with special guests?|with|featuring|feat\.|feat|ft\.|ft|special guests?:?)\s+|\s+w\/\s*/i;
+
+const TOUR_IN_PARENS = /\s*\(([^)]*\btour\b[^)]*)\)/i;
+const TITLE_SEGMENT_SEPARATOR = /\s*:\s+|\s+[-–—|]\s+/;
+
+function clean(text: string): string {
+  return text.replace(/\s+/g, " ").replace(/^[\s\-–—:,]+|[\s\-–—:,]+$/g, "");
+}
+
+// "&" and "and" join acts only when neither side is a single word, so duos
+// like "Simon & Garfunkel" stay whole, and never before a backing band like
+// "and the Heartbreakers" or "& His Large Band"
+const JOINED_ACTS = /\s+(?:&|and|\+)\s+(?!(?:the|his|her|their)\b)/i;
+
+function splitJoinedActs(text: string): string[] {
+  const parts = text.split(JOINED_ACTS).map(clean);
+  return parts.length > 1 && parts.every((part) => part.includes(" "))
+    ? parts
+    : [clean(text)];
+}
+
+function splitSupportingActs(text: string): string[] {
+  return text
+    .split(/\s*,\s*/)
+    .flatMap(splitJoinedActs)
+    .filter(Boolean);
+}
+
+// Splits off a tour name given after a colon or dash, e.g.
+// "Band A: The Big Tour" or "Band A - Big Tour 2025"
+function extractTourName(text: string): { text: string; tourName?: string } {
+  const inParens = text.match(TOUR_IN_PARENS);
+  if (inParens) {
+    return {
+      text: clean(text.replace(TOUR_IN_PARENS, "")),
+      tourName: clean(inParens[1]),
+    };
+  }
+
+  const segments = text.split(TITLE_SEGMENT_SEPARATOR);
+  const index = segments.findIndex(
+    (segment, i) => i > 0 && /\btour\b/i.test(segment)
+  );
+  if (index === -1) return { text };
+
+  // Acts listed after the tour name still belong to the bill
+  const segment = segments[index];
+  const support = segment.match(SUPPORT_SEPARATOR);
+  const tourName = support ? segment.slice(0, support.index) : segment;
+  const rest = support ? segment.slice(support.index) : "";
+
+  return {
+    text: clean(`${segments.filter((_, i) => i !== index).join(" - ")}${rest}`),
+    tourName: clean(tourName),
+  };
+}
+
+export function parseEventTitle(parts: TitleParts): ParsedTitle {
+  const parsed: ParsedTitle = { supportingActs: [] };
+  let text = clean(parts.title ?? "");
+
+  const presenter = clean(parts.pretitle ?? "").match(PRESENTER_ONLY);
+  if (presenter) parsed.presenter = clean(presenter[1]);
+
+  const subtitle = clean(parts.subtitle ?? "");
+  if (/\btour\b/i.test(subtitle) && !SUPPORT_SEPARATOR.test(` ${subtitle}`)) {
+    parsed.tourName = subtitle;
+  } else if (subtitle) {
+    text = `${text} ${subtitle}`;
+  }
+
+  const prefixed = text.match(PRESENTER_PREFIX);
+  if (prefixed) {
+    parsed.presenter ??= clean(prefixed[1]);
+    text = prefixed[2];
+  }
+
+  const tour = extractTourName(text);
+  text = tour.text;
+  parsed.tourName ??= tour.tourName;
+
+  text = text.replace(EVENING_WITH, "");
+
+  const separator = text.match(SUPPORT_SEPARATOR);
+  const billing = separator ? text.slice(0, separator.index) : text;
+  const support = separator
+    ? text.slice((separator.index ?? 0) + separator[0].length)
+    : "";
+
+  const [headliner, ...coHeadliners] = splitJoinedActs(billing);
+  if (headliner) parsed.headliner = headliner;
+  parsed.supportingActs = [...coHeadliners, ...splitSupportingActs(support)];
+
+  return parsed;
+}
+
+// The single display title the sinks and store use: an uppercased pretitle,
+// then the title and subtitle as listed
+export function combineEventTitle(parts: TitleParts): string {
+  const title = [];
+  if (parts.pretitle) title.push(parts.pretitle.toUpperCase());
+  if (parts.title) title.push(parts.title);
+  if (parts.subtitle) title.push(parts.subtitle);
+  return title.join(" ");
+}
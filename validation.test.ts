@@ -0,0 +1,152 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { Event } from "./main";
+import {
+  formatValidation,
+  isPlaceholder,
+  rejectionRate,
+  saveQuarantine,
+  validateEvents,
+} from "./validation";
+
+const validEvent: Event = {
+  website: "stateroom",
+  venue: "The State Room",
+  price: "$25",
+  event: "Band A",
+  date: "Sat, Nov 8, 2025",
+  startDate: "2025-11-08",
+  ticketLink: "https://www.axs.com/events/1001/band-a-tickets",
+};
+
+describe("isPlaceholder", () => {
+  test.each(["mockValue", "MOCKVALUE mockValue", "Lorem ipsum dolor", "TBA"])(
+    "flags %j",
+    (text) => {
+      expect(isPlaceholder(text)).toBe(true);
+    }
+  );
+
+  test.each(["Band A", "TBA Tribute Night", "Nullset"])(
+    "accepts %j",
+    (text) => {
+      expect(isPlaceholder(text)).toBe(false);
+    }
+  );
+});
+
+describe("validateEvents", () => {
+  test("keeps valid events", () => {
+    const result = validateEvents([validEvent]);
+
+    expect(result.valid).toEqual([validEvent]);
+    expect(result.quarantined).toEqual([]);
+    expect(result.warnings).toEqual([]);
+  });
+
+  test("quarantines events with a reason per bad field", () => {
+    const result = validateEvents([
+      {
+        ...validEvent,
+        venue: "",
+        event: "mockValue",
+        ticketLink: "/tickets/1001",
+      },
+    ]);
+
+    expect(result.valid).toEqual([]);
+    expect(result.quarantined).toEqual([
+      {
+        site: "stateroom",
+        event: expect.objectContaining({ event: "mockValue" }),
+        reasons: [
+          { field: "venue", message: "is empty" },
+          { field: "event", message: "looks like a placeholder" },
+          { field: "ticketLink", message: "is not a valid URL" },
+        ],
+      },
+    ]);
+  });
+
+  test("rejects missing and unparseable dates", () => {
+    const { startDate, ...undated } = validEvent;
+    const result = validateEvents([
+      { ...undated, date: "Coming soon" },
+      { ...undated, date: undefined } as unknown as Event,
+    ]);
+
+    expect(result.quarantined.map((entry) => entry.reasons)).toEqual([
+      [{ field: "date", message: "can't be parsed as a date" }],
+      [{ field: "date", message: "is missing" }],
+    ]);
+  });
+
+  test("accepts dates that parse without a startDate", () => {
+    const { startDate, ...undated } = validEvent;
+
+    expect(validateEvents([undated]).valid).toHaveLength(1);
+  });
+
+  test("drops invalid optional fields with a warning", () => {
+    const result = validateEvents([
+      { ...validEvent, image: "data:image/png;base64,AAAA", endDate: "soon" },
+    ]);
+
+    expect(result.valid).toEqual([validEvent]);
+    expect(result.warnings).toEqual([
+      {
+        site: "stateroom",
+        event: "Band A",
+        field: "endDate",
+        message: "is not an ISO 8601 date",
+      },
+      {
+        site: "stateroom",
+        event: "Band A",
+        field: "image",
+        message: "is not an http(s) URL",
+      },
+    ]);
+    expect(formatValidation(result)).toEqual([
+      'stateroom: dropped endDate from "Band A": it is not an ISO 8601 date',
+      'stateroom: dropped image from "Band A": it is not an http(s) URL',
+    ]);
+  });
+});
+
+describe("rejectionRate", () => {
+  test("is the quarantined share of the events", () => {
+    const result = validateEvents([
+      validEvent,
+      { ...validEvent, price: " " },
+      { ...validEvent, ticketLink: "" },
+      validEvent,
+    ]);
+
+    expect(rejectionRate(result)).toBe(0.5);
+    expect(rejectionRate(validateEvents([]))).toBe(0);
+  });
+});
+
+describe("saveQuarantine", () => {
+  test("writes the quarantined events with their reasons", () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "quarantine-"));
+    const file = path.join(tempDir, "data", "quarantine.json");
+    const { quarantined } = validateEvents([{ ...validEvent, price: "" }]);
+
+    saveQuarantine(quarantined, file, new Date("2025-11-01T12:00:00Z"));
+
+    expect(JSON.parse(fs.readFileSync(file, "utf8"))).toEqual({
+      generatedAt: "2025-11-01T12:00:00.000Z",
+      events: [
+        {
+          site: "stateroom",
+          event: { ...validEvent, price: "" },
+          reasons: [{ field: "price", message: "is empty" }],
+        },
+      ],
+    });
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+});
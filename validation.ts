@@ -0,0 +1,203 @@
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import { parseEventDate } from "./dates";
+import { EventSchema } from "./event";
+import { writeFileAtomic } from "./files";
+import type { Event } from "./main";
+
+export const DEFAULT_QUARANTINE_FILE = path.join(
+  __dirname,
+  "data",
+  "quarantine.json"
+);
+
+// Fraction of a site's events that may fail validation before the site is
+// treated as broken
+export const DEFAULT_MAX_REJECTION_RATE = 0.5;
+
+// Events missing any of these can't be listed; problems with the other
+// fields only drop that field
+export const REQUIRED_FIELDS = [
+  "website",
+  "venue",
+  "price",
+  "event",
+  "date",
+  "ticketLink",
+] as const;
+
+export interface FieldIssue {
+  field: string;
+  message: string;
+}
+
+export interface FieldWarning extends FieldIssue {
+  site: string;
+  event: string;
+}
+
+export interface QuarantinedEvent {
+  site: string;
+  event: Partial<Event>;
+  reasons: FieldIssue[];
+}
+
+export interface ValidationResult {
+  valid: Event[];
+  quarantined: QuarantinedEvent[];
+  // Optional fields that were dropped from otherwise valid events
+  warnings: FieldWarning[];
+}
+
+// Test data and unfilled templates that leak onto live pages
+const PLACEHOLDER_PATTERN =
+  /\bmock ?value\b|\blorem ipsum\b|^(placeholder|undefined|null|n a|tbd|tba|event name|event title)$/;
+
+export function isPlaceholder(text: string): boolean {
+  const normalized = text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+  return PLACEHOLDER_PATTERN.test(normalized);
+}
+
+const text = z.string().trim().min(1, "is empty");
+const name = text.refine((value) => !isPlaceholder(value), {
+  message: "looks like a placeholder",
+});
+const httpUrl = z
+  .string()
+  .url("is not a valid URL")
+  .refine((value) => /^https?:\/\//i.test(value), {
+    message: "is not an http(s) URL",
+  });
+const isoDate = z.string().refine((value) => !Number.isNaN(Date.parse(value)), {
+  message: "is not an ISO 8601 date",
+});
+
+export const ValidEventSchema = EventSchema.extend({
+  website: text,
+  venue: name,
+  price: text,
+  event: name,
+  date: text,
+  startDate: isoDate.optional(),
+  endDate: isoDate.optional(),
+  ticketLink: httpUrl,
+  image: httpUrl.optional(),
+}).superRefine((event, context) => {
+  if (event.date && !event.startDate && !parseEventDate(event.date)) {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["date"],
+      message: "can't be parsed as a date",
+    });
+  }
+});
+
+// The first problem with each field, which is usually the most basic one
+function fieldIssues(error: z.ZodError): FieldIssue[] {
+  const issues = new Map<string, FieldIssue>();
+  for (const issue of error.issues) {
+    const field = String(issue.path[0] ?? "");
+    if (issues.has(field)) continue;
+    issues.set(field, {
+      field,
+      message:
+        issue.code === "invalid_type" && issue.received === "undefined"
+          ? "is missing"
+          : issue.message,
+    });
+  }
+  return [...issues.values()];
+}
+
+function isRequired(field: string): boolean {
+  return (REQUIRED_FIELDS as readonly string[]).includes(field);
+}
+
+// Keeps events that pass ValidEventSchema, stripping invalid optional fields,
+// and quarantines the rest with a reason per field
+export function validateEvents(events: Event[]): ValidationResult {
+  const result: ValidationResult = { valid: [], quarantined: [], warnings: [] };
+
+  for (const event of events) {
+    const site = event.website ?? "unknown";
+    let candidate: Partial<Event> = event;
+    let parsed = ValidEventSchema.safeParse(candidate);
+
+    if (!parsed.success) {
+      const issues = fieldIssues(parsed.error);
+      const reasons = issues.filter(
+        (issue) => !issue.field || isRequired(issue.field)
+      );
+      if (reasons.length > 0) {
+        result.quarantined.push({ site, event, reasons });
+        continue;
+      }
+
+      candidate = { ...event };
+      for (const issue of issues) {
+        delete candidate[issue.field as keyof Event];
+        result.warnings.push({ site, event: event.event, ...issue });
+      }
+      parsed = ValidEventSchema.safeParse(candidate);
+      if (!parsed.success) {
+        result.quarantined.push({
+          site,
+          event,
+          reasons: fieldIssues(parsed.error),
+        });
+        continue;
+      }
+    }
+
+    result.valid.push(parsed.data);
+  }
+  return result;
+}
+
+export function rejectionRate(result: ValidationResult): number {
+  const total = result.valid.length + result.quarantined.length;
+  return total === 0 ? 0 : result.quarantined.length / total;
+}
+
+export function formatFieldIssues(issues: FieldIssue[]): string {
+  return issues
+    .map((issue) =>
+      issue.field ? `${issue.field} ${issue.message}` : issue.message
+    )
+    .join("; ");
+}
+
+export function formatValidation(result: ValidationResult): string[] {
+  return [
+    ...result.warnings.map(
+      (warning) =>
+        `${warning.site}: dropped ${warning.field} from "${warning.event}": it ${warning.message}`
+    ),
+    ...result.quarantined.map(
+      (quarantined) =>
+        `${quarantined.site}: quarantined "${
+          quarantined.event.event ?? ""
+        }": ${formatFieldIssues(quarantined.reasons)}`
+    ),
+  ];
+}
+
+export function saveQuarantine(
+  quarantined: QuarantinedEvent[],
+  file: string = DEFAULT_QUARANTINE_FILE,
+  now: Date = new Date()
+) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  writeFileAtomic(
+    file,
+    JSON.stringify(
+      { generatedAt: now.toISOString(), events: quarantined },
+      null,
+      2
+    )
+  );
+}
@@ -0,0 +1,229 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { WebsiteConfig } from "./config";
+import { enrichEvents } from "./details";
+import { createStore, eventId, recordRun } from "./store";
+import { makeEvent } from "./testEvents";
+import {
+  createVenueIndex,
+  DEFAULT_VENUES_FILE,
+  formatVenueAddress,
+  loadVenueRegistry,
+  resolveEventVenues,
+  resolveVenue,
+  VenueRegistry,
+} from "./venues";
+
+const registry: VenueRegistry = {
+  "the-state-room": {
+    name: "The State Room",
+    street: "638 S State St",
+    city: "Salt Lake City",
+    region: "UT",
+    postalCode: "84111",
+    latitude: 40.759,
+    longitude: -111.8879,
+  },
+  "kilby-court": {
+    name: "Kilby Court",
+    aliases: ["Kilby Ct."],
+    city: "Salt Lake City",
+  },
+};
+
+describe("resolveVenue", () => {
+  const index = createVenueIndex(registry);
+
+  test.each(["The State Room", "state room", "STATE ROOM - SLC", "Kilby Ct."])(
+    "matches %j",
+    (name) => {
+      expect(resolveVenue(index, name)).toBeDefined();
+    }
+  );
+
+  test("leaves unknown names unresolved", () => {
+    expect(resolveVenue(index, "The Depot")).toBeUndefined();
+    expect(resolveVenue(index, "")).toBeUndefined();
+  });
+
+  test("rejects registries where two venues share a name", () => {
+    expect(() =>
+      createVenueIndex({
+        ...registry,
+        other: { name: "Other", aliases: ["The State Room"] },
+      })
+    ).toThrow(/the-state-room and other/);
+  });
+});
+
+describe("formatVenueAddress", () => {
+  test("joins whatever parts are known", () => {
+    expect(formatVenueAddress(registry["the-state-room"])).toBe(
+      "638 S State St, Salt Lake City, UT 84111"
+    );
+    expect(formatVenueAddress(registry["kilby-court"])).toBe("Salt Lake City");
+    expect(formatVenueAddress({ name: "Nowhere" })).toBeUndefined();
+  });
+});
+
+describe("resolveEventVenues", () => {
+  const index = createVenueIndex(registry);
+
+  test("canonicalizes names and adds locations", () => {
+    const { events, unresolved } = resolveEventVenues(
+      [makeEvent({ venue: "STATE ROOM" }), makeEvent({ venue: "Kilby Ct." })],
+      index,
+      { venue: "The State Room" }
+    );
+
+    expect(events).toEqual([
+      {
+        ...makeEvent({ venue: "The State Room" }),
+        id: eventId(makeEvent({ venue: "STATE ROOM" })),
+        venueId: "the-state-room",
+        address: "638 S State St, Salt Lake City, UT 84111",
+        geo: { latitude: 40.759, longitude: -111.8879 },
+      },
+      {
+        ...makeEvent({ venue: "Kilby Court" }),
+        id: eventId(makeEvent({ venue: "Kilby Ct." })),
+        venueId: "kilby-court",
+        address: "Salt Lake City",
+      },
+    ]);
+    expect(unresolved).toEqual([]);
+  });
+
+  test("falls back to the site's venue for presenter credits", () => {
+    const { events } = resolveEventVenues(
+      [makeEvent({ venue: "KRCL 90.9FM Presents" }), makeEvent({ venue: "" })],
+      index,
+      { venue: "The State Room" }
+    );
+
+    expect(events.map((event) => event.venueId)).toEqual([
+      "the-state-room",
+      "the-state-room",
+    ]);
+  });
+
+  test("reports names it can't resolve", () => {
+    const { events, unresolved } = resolveEventVenues(
+      [
+        makeEvent({ venue: "The Depot" }),
+        makeEvent({ venue: "The Depot" }),
+        makeEvent({ venue: "SNS Presents" }),
+      ],
+      index,
+      { venue: "SNS Presents", aggregator: true }
+    );
+
+    expect(events[0]).toEqual({
+      ...makeEvent({ venue: "The Depot" }),
+      id: eventId(makeEvent({ venue: "The Depot" })),
+    });
+    expect(unresolved).toEqual(["The Depot", "SNS Presents"]);
+  });
+});
+
+describe("resolving venues across runs", () => {
+  const config = {
+    url: "https://thestateroom.test",
+    venue: "The State Room",
+    eventListSelector: ".row",
+    eventSectionSelector: ".rows",
+    defaultSelectors: {
+      price: ".price",
+      event: ".title",
+      date: ".date",
+      ticketLink: "a",
+    },
+    detailSelectors: { ageRestriction: ".age" },
+  } as WebsiteConfig;
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  // What scrapeSite and main do with each run's listings
+  async function run(store: ReturnType<typeof createStore>) {
+    const fetchHtml = jest.fn().mockResolvedValue('<p class="age">21+</p>');
+    const enriched = await enrichEvents(
+      [makeEvent({ venue: "STATE ROOM" })],
+      config,
+      "stateroom",
+      { fetchHtml, store }
+    );
+    const { events } = resolveEventVenues(
+      enriched,
+      createVenueIndex(registry),
+      config
+    );
+    const diff = recordRun(store, events, { scrapedSites: ["stateroom"] });
+    return { fetchHtml, diff };
+  }
+
+  test("keeps IDs and stored details for resolved venues", async () => {
+    const store = createStore();
+    await run(store);
+
+    const { fetchHtml, diff } = await run(store);
+
+    expect(fetchHtml).not.toHaveBeenCalled();
+    expect(diff.added).toEqual([]);
+    expect(diff.removed).toEqual([]);
+    expect(Object.keys(store.events)).toEqual([
+      eventId(makeEvent({ venue: "STATE ROOM" })),
+    ]);
+    expect(Object.values(store.events)[0].event).toMatchObject({
+      venue: "The State Room",
+      ageRestriction: "21+",
+    });
+  });
+});
+
+describe("loadVenueRegistry", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "venues-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test("treats a missing file as an empty registry", () => {
+    expect(loadVenueRegistry(path.join(tempDir, "none.json"))).toEqual({});
+  });
+
+  test("rejects invalid entries", () => {
+    const file = path.join(tempDir, "venues.json");
+    fs.writeFileSync(
+      file,
+      JSON.stringify({ room: { name: "Room", latitude: 200 } })
+    );
+
+    expect(() => loadVenueRegistry(file)).toThrow(/room\.latitude/);
+  });
+
+  test("ships a registry covering every configured site", () => {
+    const index = createVenueIndex(loadVenueRegistry(DEFAULT_VENUES_FILE));
+
+    for (const name of [
+      "The State Room",
+      "Commonwealth Room",
+      "Eccles Theater",
+      "Deer Valley Concert Series",
+      "Kilby Court",
+      "The Depot",
+    ]) {
+      expect(resolveVenue(index, name)).toBeDefined();
+    }
+  });
+});
@@ -0,0 +1,143 @@
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import type { WebsiteConfig } from "./config";
+import type { Event } from "./event";
+import { normalizeTitle, withEventId } from "./store";
+
+// Known rooms keyed by a stable ID, e.g. "the-state-room"
+export const DEFAULT_VENUES_FILE = path.join(__dirname, "venues.json");
+
+export const VenueSchema = z.object({
+  // Replaces every alias on scraped events
+  name: z.string().min(1),
+  // Other spellings sites use, matched case- and punctuation-insensitively
+  aliases: z.array(z.string()).optional(),
+  street: z.string().optional(),
+  city: z.string().optional(),
+  region: z.string().optional(),
+  postalCode: z.string().optional(),
+  latitude: z.number().min(-90).max(90).optional(),
+  longitude: z.number().min(-180).max(180).optional(),
+  capacity: z.number().int().positive().optional(),
+  website: z.string().url().optional(),
+});
+
+export type Venue = z.infer<typeof VenueSchema>;
+
+export const VenueRegistrySchema = z.record(VenueSchema);
+
+export type VenueRegistry = z.infer<typeof VenueRegistrySchema>;
+
+export function loadVenueRegistry(
+  file: string = DEFAULT_VENUES_FILE
+): VenueRegistry {
+  if (!fs.existsSync(file)) return {};
+
+  const result = VenueRegistrySchema.safeParse(
+    JSON.parse(fs.readFileSync(file, "utf8"))
+  );
+  if (!result.success) {
+    const issues = result.error.issues.map(
+      (issue) => `${issue.path.join(".")}: ${issue.message}`
+    );
+    throw new Error(`Invalid venue registry ${file}: ${issues.join("; ")}`);
+  }
+  return result.data;
+}
+
+// "The State Room" and "State Room, SLC" both become "state room"
+export function venueKey(name: string): string {
+  return normalizeTitle(name)
+    .replace(/^the /, "")
+    .replace(/ (slc|salt lake city|ut|utah)$/, "");
+}
+
+export interface VenueMatch {
+  id: string;
+  venue: Venue;
+}
+
+export type VenueIndex = Map<string, VenueMatch>;
+
+export function createVenueIndex(registry: VenueRegistry): VenueIndex {
+  const index: VenueIndex = new Map();
+  for (const [id, venue] of Object.entries(registry)) {
+    for (const name of [venue.name, ...(venue.aliases ?? [])]) {
+      const key = venueKey(name);
+      const existing = index.get(key);
+      if (existing && existing.id !== id) {
+        throw new Error(
+          `Venues ${existing.id} and ${id} both claim the name "${name}"`
+        );
+      }
+      index.set(key, { id, venue });
+    }
+  }
+  return index;
+}
+
+export function resolveVenue(
+  index: VenueIndex,
+  name: string
+): VenueMatch | undefined {
+  const key = venueKey(name);
+  return key ? index.get(key) : undefined;
+}
+
+// One line, e.g. "638 S State St, Salt Lake City, UT 84111"
+export function formatVenueAddress(venue: Venue): string | undefined {
+  const region = [venue.region, venue.postalCode].filter(Boolean).join(" ");
+  const parts = [venue.street, venue.city, region].filter(Boolean);
+  return parts.length > 0 ? parts.join(", ") : undefined;
+}
+
+function applyVenue(event: Event, { id, venue }: VenueMatch): Event {
+  const resolved: Event = { ...event, venue: venue.name, venueId: id };
+  const address = formatVenueAddress(venue);
+  if (address) resolved.address = address;
+  if (venue.latitude !== undefined && venue.longitude !== undefined) {
+    resolved.geo = { latitude: venue.latitude, longitude: venue.longitude };
+  }
+  return resolved;
+}
+
+// Presenter credits and blank cells, which say nothing about the room
+function isPresenterCredit(name: string): boolean {
+  const normalized = normalizeTitle(name);
+  return !normalized || /\bpresents$/.test(normalized);
+}
+
+export interface VenueResolution {
+  events: Event[];
+  // Scraped names that match no venue, in first-seen order
+  unresolved: string[];
+}
+
+// Replaces scraped venue names with the registry's. A presenter credit falls
+// back to the site's own venue, except on aggregator sites where that's a
+// presenter too. Event IDs are fixed first, from the names as scraped, so
+// they still match the store and the details of earlier runs.
+export function resolveEventVenues(
+  events: Event[],
+  index: VenueIndex,
+  config: Pick<WebsiteConfig, "venue" | "aggregator">
+): VenueResolution {
+  const unresolved = new Set<string>();
+  const siteVenue = config.aggregator
+    ? undefined
+    : resolveVenue(index, config.venue);
+
+  const resolvedEvents = events.map((scraped) => {
+    const event = withEventId(scraped);
+    const match =
+      resolveVenue(index, event.venue) ??
+      (isPresenterCredit(event.venue) ? siteVenue : undefined);
+    if (match) return applyVenue(event, match);
+
+    if (event.venue) unresolved.add(event.venue);
+    return event;
+  });
+
+  return { events: resolvedEvents, unresolved: [...unresolved] };
+}